@@ -118,6 +118,7 @@ export class CLI implements Command {
                 init   Setup Prisma for your app
           introspect   Get the datamodel of your database
             generate   Generate artifacts (e.g. Prisma Client)
+                  db   Seed your database
               format   Formats your schema
 
     ${chalk.bold('Flags')}
@@ -153,6 +154,7 @@ export class CLI implements Command {
                 init   Setup Prisma for your app
           introspect   Get the datamodel of your database
             generate   Generate artifacts (e.g. Prisma Client)
+                  db   Seed your database
              migrate   Migrate your schema ${chalk.dim('(experimental)')}
               studio   Run Prisma Studio ${chalk.dim('(experimental)')}
               format   Formats your schema
@@ -98,7 +98,15 @@ import {
   MigrateSave,
   MigrateUp,
   MigrateDown,
+  MigrateStatus,
+  MigrateSql,
+  MigrateResolve,
+  MigrateReset,
+  MigrateDiff,
+  MigrateSquash,
   MigrateTmpPrepare,
+  DbCommand,
+  DbSeed,
   StudioCommand,
   handlePanic,
 } from '@prisma/migrate'
@@ -141,6 +149,15 @@ async function main(): Promise<number> {
         save: MigrateSave.new(),
         up: MigrateUp.new(),
         down: MigrateDown.new(),
+        status: MigrateStatus.new(),
+        sql: MigrateSql.new(),
+        resolve: MigrateResolve.new(),
+        reset: MigrateReset.new(),
+        diff: MigrateDiff.new(),
+        squash: MigrateSquash.new(),
+      }),
+      db: DbCommand.new({
+        seed: DbSeed.new(),
       }),
       'tmp-prepare': MigrateTmpPrepare.new(),
       introspect: Introspect.new(),
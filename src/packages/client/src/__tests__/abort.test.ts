@@ -0,0 +1,121 @@
+import { Dataloader } from '../runtime/Dataloader'
+import { AbortError } from '@prisma/engine-core'
+import { createAbortSignal } from '../utils/createAbortSignal'
+
+function createDataloader(loaded: Promise<void> = Promise.resolve()) {
+  const singleRequests: any[] = []
+  const batches: any[][] = []
+  const dataloader = new Dataloader<{ id: number; signal?: any }>({
+    singleLoader: async (request) => {
+      singleRequests.push(request.id)
+      await loaded
+      return request.id
+    },
+    batchLoader: async (requests) => {
+      batches.push(requests.map((r) => r.id))
+      await loaded
+      return requests.map((r) => r.id)
+    },
+    batchBy: () => 'batch',
+  })
+
+  return { dataloader, singleRequests, batches }
+}
+
+test('removes an aborted request from the pending batch', async () => {
+  const { dataloader, singleRequests, batches } = createDataloader()
+  const { signal, abort } = createAbortSignal()
+
+  const aborted = dataloader.request({ id: 1, signal })
+  const remaining = [
+    dataloader.request({ id: 2 }),
+    dataloader.request({ id: 3 }),
+  ]
+  abort()
+
+  await expect(aborted).rejects.toBeInstanceOf(AbortError)
+  expect(await Promise.all(remaining)).toEqual([2, 3])
+  expect(batches).toEqual([[2, 3]])
+  expect(singleRequests).toEqual([])
+})
+
+test('sends the remaining request alone', async () => {
+  const { dataloader, singleRequests, batches } = createDataloader()
+  const { signal, abort } = createAbortSignal()
+
+  const aborted = dataloader.request({ id: 1, signal })
+  const remaining = dataloader.request({ id: 2 })
+  abort()
+
+  await expect(aborted).rejects.toBeInstanceOf(AbortError)
+  expect(await remaining).toEqual(2)
+  expect(batches).toEqual([])
+  expect(singleRequests).toEqual([2])
+})
+
+test('rejects already aborted signals without sending the request', async () => {
+  const { dataloader, singleRequests, batches } = createDataloader()
+  const { signal, abort } = createAbortSignal()
+  abort()
+
+  await expect(dataloader.request({ id: 1, signal })).rejects.toBeInstanceOf(
+    AbortError,
+  )
+  await new Promise((r) => process.nextTick(r))
+  expect(batches).toEqual([])
+  expect(singleRequests).toEqual([])
+})
+
+test('resolves requests, which are not aborted', async () => {
+  const { dataloader } = createDataloader()
+  const { signal } = createAbortSignal()
+
+  expect(
+    await Promise.all([
+      dataloader.request({ id: 1, signal }),
+      dataloader.request({ id: 2 }),
+    ]),
+  ).toEqual([1, 2])
+})
+
+describe('abort after the batch has been dispatched', () => {
+  function createLoaded() {
+    let load: () => void = () => undefined
+    const loaded = new Promise<void>((resolve) => (load = resolve))
+    return { loaded, load }
+  }
+
+  test('resolves the other requests with their own results', async () => {
+    const { loaded, load } = createLoaded()
+    const { dataloader, batches } = createDataloader(loaded)
+    const { signal, abort } = createAbortSignal()
+
+    const aborted = dataloader.request({ id: 1, signal })
+    const remaining = [
+      dataloader.request({ id: 2 }),
+      dataloader.request({ id: 3 }),
+    ]
+    await new Promise((r) => process.nextTick(r))
+    abort()
+    load()
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortError)
+    expect(await Promise.all(remaining)).toEqual([2, 3])
+    expect(batches).toEqual([[1, 2, 3]])
+  })
+
+  test('rejects a single request', async () => {
+    const { loaded, load } = createLoaded()
+    const { dataloader, singleRequests } = createDataloader(loaded)
+    const { signal, abort } = createAbortSignal()
+
+    const aborted = dataloader.request({ id: 1, signal })
+    await new Promise((r) => process.nextTick(r))
+    abort()
+    load()
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortError)
+    await loaded
+    expect(singleRequests).toEqual([1])
+  })
+})
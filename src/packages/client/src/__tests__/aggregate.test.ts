@@ -0,0 +1,196 @@
+import stripAnsi from 'strip-ansi'
+import { transformAggregateArgs } from '../runtime/getPrismaClient'
+import { getDMMF } from '../generation/getDMMF'
+import { DMMFClass, makeDocument } from '../runtime'
+import { capitalize } from '../runtime/utils/common'
+import { DMMF } from '../runtime/dmmf-types'
+import { Aggregate } from '../generation/TSClient'
+
+const datamodel = `model User {
+  id     Int    @id
+  name   String
+  age    Int
+  height Float
+}
+`
+
+// the engine of this version only exposes `count`, newer ones add the aggregations
+async function getAggregateDMMF() {
+  const document = await getDMMF({ datamodel })
+  const aggregateType = document.schema.outputTypes.find(
+    (t) => t.name === 'AggregateUser',
+  )!
+  for (const aggregation of ['avg', 'sum', 'min', 'max']) {
+    const typeName = `User${capitalize(aggregation)}AggregateOutputType`
+    document.schema.outputTypes.push({
+      name: typeName,
+      fields: ['age', 'height'].map((name) => ({
+        name,
+        args: [],
+        outputType: {
+          type: 'Float',
+          kind: 'scalar',
+          isList: false,
+          isRequired: false,
+        },
+      })),
+    })
+    aggregateType.fields.push({
+      name: aggregation,
+      args: [],
+      outputType: {
+        type: typeName,
+        kind: 'object',
+        isList: false,
+        isRequired: false,
+      },
+    })
+  }
+
+  return new DMMFClass(document)
+}
+
+test('moves aggregations into the selection set', () => {
+  const args = transformAggregateArgs({
+    where: {
+      name: 'Bob',
+    },
+    count: true,
+    avg: {
+      age: true,
+    },
+    max: {
+      age: true,
+      height: true,
+    },
+  })
+
+  expect(args).toEqual({
+    where: {
+      name: 'Bob',
+    },
+    select: {
+      count: true,
+      avg: {
+        select: {
+          age: true,
+        },
+      },
+      max: {
+        select: {
+          age: true,
+          height: true,
+        },
+      },
+    },
+  })
+})
+
+test('no args', () => {
+  expect(transformAggregateArgs()).toEqual({ select: {} })
+})
+
+describe('aggregate validation', () => {
+  let dmmf
+  beforeAll(async () => {
+    dmmf = await getAggregateDMMF()
+  })
+
+  test('valid aggregations', () => {
+    const select = transformAggregateArgs({
+      count: true,
+      avg: {
+        age: true,
+      },
+    })
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'aggregateUser',
+    })
+
+    expect(() =>
+      document.validate(select, false, 'user.aggregate', 'colorless'),
+    ).not.toThrow()
+    expect(String(document)).toMatchInlineSnapshot(`
+      "query {
+        aggregateUser {
+          count
+          avg {
+            age
+          }
+        }
+      }"
+    `)
+  })
+
+  test('aggregate a field, which is not numeric', () => {
+    const select = transformAggregateArgs({
+      avg: {
+        name: true,
+      },
+    })
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'aggregateUser',
+    })
+
+    try {
+      document.validate(select, false, 'user.aggregate', 'colorless')
+      throw new Error('The document should be invalid')
+    } catch (e) {
+      expect(stripAnsi(e.message)).toContain(
+        "Field `name` of type String can't be used in avg, as only numeric fields can be aggregated.",
+      )
+    }
+  })
+})
+
+describe('aggregate types', () => {
+  const scalarField = (name: string, type: string): DMMF.SchemaField => ({
+    name,
+    args: [],
+    outputType: { type, kind: 'scalar', isList: false, isRequired: false },
+  })
+
+  test('use the first JS type of scalars, which accept several', () => {
+    const model = {
+      name: 'Account',
+      fields: [],
+    } as any
+    const outputType: DMMF.OutputType = {
+      name: 'AggregateAccount',
+      fields: [
+        scalarField('count', 'Int'),
+        {
+          name: 'max',
+          args: [],
+          outputType: {
+            type: {
+              name: 'AccountMaxAggregateOutputType',
+              fields: [
+                scalarField('id', 'Long'),
+                scalarField('balance', 'Decimal'),
+                scalarField('createdAt', 'DateTime'),
+              ],
+            },
+            kind: 'object',
+            isList: false,
+            isRequired: false,
+          },
+        },
+      ],
+    }
+
+    const ts = new Aggregate(model, outputType).toTS()
+
+    expect(ts).toContain(`export type AccountMaxAggregateOutputType = {
+  id: bigint | null
+  balance: Decimal | null
+  createdAt: Date | null
+}`)
+  })
+})
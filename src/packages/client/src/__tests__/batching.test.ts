@@ -2,6 +2,8 @@ import { PrismaClientFetcher } from '../runtime/getPrismaClient'
 import { blog } from '../fixtures/blog'
 import { getDMMF } from '../generation/getDMMF'
 import { DMMFClass, makeDocument } from '../runtime'
+import { TransactionBatch } from '../runtime/TransactionBatch'
+import { createAbortSignal } from '../utils/createAbortSignal'
 
 describe('batching', () => {
   test('basic batching', async () => {
@@ -257,4 +259,229 @@ describe('batching', () => {
       ]
     `)
   })
+
+  test('batch requests of a transaction', async () => {
+    const dmmf = new DMMFClass(await getDMMF({ datamodel: blog }))
+    const batches: any[] = []
+    const transactionFlags: boolean[] = []
+    const requests: any[] = []
+
+    const fetcher = new PrismaClientFetcher({
+      connect: () => Promise.resolve(),
+      engine: {
+        requestBatch: (batch, transaction) => {
+          batches.push(batch)
+          transactionFlags.push(transaction)
+          return batch.map(() => ({ data: { data: null }, elapsed: 0.2 }))
+        },
+        request: (request) => {
+          requests.push(request)
+          return { data: { data: null }, elapsed: 0.3 }
+        },
+      },
+    })
+    const batch = new TransactionBatch(2, (documents) =>
+      fetcher.requestTransactionBatch(documents),
+    )
+
+    await Promise.all([
+      fetcher.request({
+        clientMethod: 'findMany',
+        dataPath: [],
+        document: makeDocument({
+          dmmf,
+          select: {},
+          rootTypeName: 'query',
+          rootField: 'findManyUser',
+        }),
+        isList: true,
+        rootField: 'query',
+        typeName: 'User',
+        transaction: { batch, index: 0 },
+      }),
+      // e.g. a middleware awaited something before calling `next`
+      new Promise((resolve) => setTimeout(resolve, 10)).then(() =>
+        fetcher.request({
+          clientMethod: 'findMany',
+          dataPath: [],
+          document: makeDocument({
+            dmmf,
+            select: {},
+            rootTypeName: 'query',
+            rootField: 'findManyPost',
+          }),
+          isList: true,
+          rootField: 'query',
+          typeName: 'Post',
+          transaction: { batch, index: 1 },
+        }),
+      ),
+    ])
+
+    expect(batches).toHaveLength(1)
+    expect(batches[0]).toHaveLength(2)
+    expect(transactionFlags).toEqual([true])
+    expect(requests).toEqual([])
+  })
+
+  test('batch findMany filtered by the same relation scalar', async () => {
+    const dmmf = new DMMFClass(await getDMMF({ datamodel: blog }))
+    const batches: any[] = []
+    const requests: any[] = []
+
+    const fetcher = new PrismaClientFetcher({
+      connect: () => Promise.resolve(),
+      dmmf,
+      internalDatasources: [{ connectorType: 'postgresql' }],
+      engine: {
+        requestBatch: (batch) => {
+          batches.push(batch)
+          return batch.map(() => ({ data: { data: null }, elapsed: 0.2 }))
+        },
+        request: (request) => {
+          requests.push(request)
+          return {
+            data: {
+              data: {
+                findManyPost: [
+                  { id: '1', title: 'a', authorId: '1' },
+                  { id: '2', title: 'b', authorId: '2' },
+                  { id: '3', title: 'c', authorId: '1' },
+                ],
+              },
+            },
+            elapsed: 0.3,
+          }
+        },
+      },
+    })
+
+    const findPosts = (authorId: string) =>
+      fetcher.request({
+        clientMethod: 'post.findMany',
+        dataPath: [],
+        document: makeDocument({
+          dmmf,
+          select: {
+            where: {
+              authorId,
+            },
+            select: {
+              id: true,
+              title: true,
+            },
+          },
+          rootTypeName: 'query',
+          rootField: 'findManyPost',
+        }),
+        isList: true,
+        rootField: 'findManyPost',
+        typeName: 'Post',
+      })
+
+    const results = await Promise.all([
+      findPosts('1'),
+      findPosts('2'),
+      findPosts('3'),
+    ])
+
+    expect(batches).toEqual([])
+    expect(requests).toHaveLength(1)
+    expect(requests[0]).toContain('authorId_in: ["1", "2", "3"]')
+    expect(results).toEqual([
+      [
+        { id: '1', title: 'a' },
+        { id: '3', title: 'c' },
+      ],
+      [{ id: '2', title: 'b' }],
+      [],
+    ])
+  })
+
+  describe('findMany filtered by the same relation scalar', () => {
+    let dmmf
+    beforeAll(async () => {
+      dmmf = new DMMFClass(await getDMMF({ datamodel: blog }))
+    })
+
+    function createFetcher(connectorType: string, request: any) {
+      const batches: any[] = []
+      const requests: any[] = []
+      const fetcher = new PrismaClientFetcher({
+        connect: () => Promise.resolve(),
+        dmmf,
+        internalDatasources: [{ connectorType }],
+        engine: {
+          requestBatch: (batch) => {
+            batches.push(batch)
+            return batch.map(() => ({
+              data: { data: { findManyPost: [] } },
+              elapsed: 0.2,
+            }))
+          },
+          request: (query, options) => {
+            requests.push({ query, options })
+            return request(options)
+          },
+        },
+      })
+      const findPosts = (authorId: string, signal?: any) =>
+        fetcher.request({
+          clientMethod: 'post.findMany',
+          dataPath: [],
+          document: makeDocument({
+            dmmf,
+            select: { where: { authorId } },
+            rootTypeName: 'query',
+            rootField: 'findManyPost',
+          }),
+          isList: true,
+          rootField: 'findManyPost',
+          typeName: 'Post',
+          signal,
+        })
+
+      return { findPosts, batches, requests }
+    }
+
+    test('dont merge string filters of connectors comparing case-insensitively', async () => {
+      const { findPosts, batches, requests } = createFetcher('mysql', () => ({
+        data: { data: { findManyPost: [] } },
+        elapsed: 0.3,
+      }))
+
+      await Promise.all([findPosts('a'), findPosts('A')])
+
+      expect(requests).toHaveLength(2)
+      expect(requests[0].query).toContain('authorId: "a"')
+      expect(batches).toEqual([])
+    })
+
+    test('abort the merged request once all callers aborted', async () => {
+      const { findPosts, requests } = createFetcher(
+        'postgresql',
+        ({ signal }) =>
+          new Promise((resolve, reject) =>
+            signal.addEventListener('abort', () =>
+              reject(new Error('The request was aborted')),
+            ),
+          ),
+      )
+      const signals = [createAbortSignal(), createAbortSignal()]
+
+      const results = Promise.all(
+        signals.map(({ signal }, i) =>
+          findPosts(String(i), signal).catch((e) => e.name),
+        ),
+      )
+      await new Promise((resolve) => setImmediate(resolve))
+
+      const { signal } = requests[0].options
+      signals[0].abort()
+      expect(signal.aborted).toBe(false)
+      signals[1].abort()
+      expect(signal.aborted).toBe(true)
+      expect(await results).toEqual(['AbortError', 'AbortError'])
+    })
+  })
 })
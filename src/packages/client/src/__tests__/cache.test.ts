@@ -0,0 +1,193 @@
+import { LRUCache, QueryCache } from '../runtime/cache'
+import { PrismaClientFetcher } from '../runtime/getPrismaClient'
+import { blog } from '../fixtures/blog'
+import { getDMMF } from '../generation/getDMMF'
+import { DMMFClass, makeDocument } from '../runtime'
+
+describe('LRUCache', () => {
+  test('evicts the least recently used entry', () => {
+    const cache = new LRUCache(2)
+    cache.set('a', 'a', 1000)
+    cache.set('b', 'b', 1000)
+    cache.get('a')
+    cache.set('c', 'c', 1000)
+
+    expect(cache.get('a')).toEqual('a')
+    expect(cache.get('b')).toEqual(undefined)
+    expect(cache.get('c')).toEqual('c')
+  })
+
+  test('reports evicted entries', () => {
+    const evicted: string[] = []
+    const cache = new LRUCache(1, (key) => evicted.push(key))
+    cache.set('a', 'a', 1000)
+    cache.set('b', 'b', 1000)
+
+    expect(evicted).toEqual(['a'])
+  })
+
+  test('expires entries', () => {
+    const cache = new LRUCache()
+    cache.set('a', 'a', 0)
+
+    expect(cache.get('a')).toEqual(undefined)
+  })
+})
+
+describe('QueryCache', () => {
+  const dmmf = {
+    modelMap: {
+      User: {
+        fields: [
+          { name: 'id', kind: 'scalar', type: 'String' },
+          { name: 'posts', kind: 'object', type: 'Post' },
+        ],
+      },
+      Post: {
+        fields: [
+          { name: 'id', kind: 'scalar', type: 'String' },
+          { name: 'author', kind: 'object', type: 'User' },
+          { name: 'comments', kind: 'object', type: 'Comment' },
+        ],
+      },
+      Comment: {
+        fields: [
+          { name: 'id', kind: 'scalar', type: 'String' },
+          { name: 'post', kind: 'object', type: 'Post' },
+        ],
+      },
+      NoRelations: {
+        fields: [{ name: 'id', kind: 'scalar', type: 'String' }],
+      },
+    },
+  } as any
+
+  test('invalidates the model and related models', async () => {
+    const cache = new QueryCache(dmmf)
+    await cache.set('User', 'users', '[]', 1000)
+    await cache.set('Post', 'posts', '[]', 1000)
+    await cache.set('Comment', 'comments', '[]', 1000)
+    await cache.set('NoRelations', 'noRelations', '[]', 1000)
+
+    await cache.invalidate('User')
+
+    expect(await cache.get('User', 'users')).toEqual(undefined)
+    expect(await cache.get('Post', 'posts')).toEqual(undefined)
+    expect(await cache.get('Comment', 'comments')).toEqual(undefined)
+    expect(await cache.get('NoRelations', 'noRelations')).toEqual('[]')
+  })
+
+  test('invalidates the models of a transaction once it is committed', async () => {
+    const cache = new QueryCache(dmmf)
+    await cache.set('User', 'users', '[]', 1000)
+    await cache.set('NoRelations', 'noRelations', '[]', 1000)
+
+    cache.invalidateOnCommit('tx-1', 'User')
+    cache.invalidateOnCommit('tx-2', 'NoRelations')
+    expect(await cache.get('User', 'users')).toEqual('[]')
+
+    await cache.commit('tx-1')
+    cache.rollback('tx-2')
+    await cache.commit('tx-2')
+
+    expect(await cache.get('User', 'users')).toEqual(undefined)
+    expect(await cache.get('NoRelations', 'noRelations')).toEqual('[]')
+  })
+
+  test('forgets the keys of evicted and expired entries', async () => {
+    const cache = new QueryCache(dmmf)
+    for (let i = 0; i <= 1000; i++) {
+      await cache.set('User', `users${i}`, '[]', 1000)
+    }
+    expect(cache['keysByModel'].get('User').size).toEqual(1000)
+
+    await cache.set('Post', 'expired', '[]', 0)
+    await cache.set('Post', 'posts', '[]', 1000)
+    expect([...cache['keysByModel'].get('Post').keys()]).toEqual(['posts'])
+  })
+
+  test('clear', async () => {
+    const cache = new QueryCache(dmmf)
+    await cache.set('User', 'users', '[]', 1000)
+    await cache.set('NoRelations', 'noRelations', '[]', 1000)
+
+    await cache.clear()
+
+    expect(await cache.get('User', 'users')).toEqual(undefined)
+    expect(await cache.get('NoRelations', 'noRelations')).toEqual(undefined)
+  })
+})
+
+test('fetcher caches queries until a mutation of the model', async () => {
+  const dmmf = new DMMFClass(await getDMMF({ datamodel: blog }))
+  const requests: any[] = []
+
+  const fetcher = new PrismaClientFetcher(
+    {
+      connect: () => Promise.resolve(),
+      engine: {
+        request: (request) => {
+          requests.push(request)
+          return { data: { data: { findManyUser: [] } }, elapsed: 0.3 }
+        },
+      },
+    },
+    false,
+    undefined,
+    () => new QueryCache(dmmf),
+  )
+  expect(fetcher.cache).toBeUndefined()
+
+  const findMany = () =>
+    fetcher.request({
+      clientMethod: 'user.findMany',
+      dataPath: [],
+      document: makeDocument({
+        dmmf,
+        select: {},
+        rootTypeName: 'query',
+        rootField: 'findManyUser',
+      }),
+      isList: true,
+      rootField: 'findManyUser',
+      typeName: 'User',
+      cache: { ttl: 1000 },
+    })
+
+  await fetcher.request({
+    clientMethod: 'post.deleteMany',
+    dataPath: [],
+    document: makeDocument({
+      dmmf,
+      select: {},
+      rootTypeName: 'mutation',
+      rootField: 'deleteManyPost',
+    }),
+    isList: false,
+    rootField: 'deleteManyPost',
+    typeName: 'Post',
+  })
+  expect(fetcher.cache).toBeUndefined()
+
+  await findMany()
+  expect(fetcher.cache).toBeInstanceOf(QueryCache)
+  await findMany()
+  expect(requests).toHaveLength(2)
+
+  await fetcher.request({
+    clientMethod: 'post.deleteMany',
+    dataPath: [],
+    document: makeDocument({
+      dmmf,
+      select: {},
+      rootTypeName: 'mutation',
+      rootField: 'deleteManyPost',
+    }),
+    isList: false,
+    rootField: 'deleteManyPost',
+    typeName: 'Post',
+  })
+
+  await findMany()
+  expect(requests).toHaveLength(4)
+})
@@ -0,0 +1,115 @@
+import { Decimal } from '../runtime/utils/decimal'
+import {
+  Document,
+  Field,
+  getExactNumberPaths,
+  mapBigIntsAndDecimals,
+} from '../runtime/query'
+
+describe('Decimal', () => {
+  test('keeps the exact value', () => {
+    expect(new Decimal('12345678901234567890.123456789').toString()).toEqual(
+      '12345678901234567890.123456789',
+    )
+    expect(new Decimal(0.1).toJSON()).toEqual('0.1')
+  })
+
+  test('normalizes the notation', () => {
+    expect(String(new Decimal('+001.2300'))).toEqual('1.23')
+    expect(String(new Decimal('-0.0'))).toEqual('0')
+    expect(String(new Decimal('1.5e3'))).toEqual('1500')
+    expect(String(new Decimal('12e-3'))).toEqual('0.012')
+    expect(String(new Decimal('.5'))).toEqual('0.5')
+  })
+
+  test('equals', () => {
+    expect(new Decimal('1.10').equals(1.1)).toBe(true)
+    expect(new Decimal('1.10').equals('1.11')).toBe(false)
+  })
+
+  test('compares', () => {
+    expect(new Decimal('1.10').comparedTo(1.1)).toEqual(0)
+    expect(new Decimal('-2.5').comparedTo('-2.45')).toEqual(-1)
+    expect(new Decimal('10').comparedTo('9.99')).toEqual(1)
+  })
+
+  test('adds without losing precision', () => {
+    expect(String(new Decimal('0.1').plus('0.2'))).toEqual('0.3')
+    expect(String(new Decimal('12345678901234567890.5').plus('-0.75'))).toEqual(
+      '12345678901234567889.75',
+    )
+  })
+
+  test('divides', () => {
+    expect(String(new Decimal('10.5').dividedBy(2))).toEqual('5.25')
+    expect(String(new Decimal('-1').dividedBy(8))).toEqual('-0.125')
+    expect(String(new Decimal('2').dividedBy(3))).toEqual(
+      '0.66666666666666666667',
+    )
+    expect(() => new Decimal('1').dividedBy(0)).toThrow(
+      'Division of Decimal 1 by zero',
+    )
+  })
+
+  test('throws for invalid values', () => {
+    expect(() => new Decimal('abc')).toThrow(`Invalid value "abc" for Decimal`)
+    expect(() => new Decimal(NaN)).toThrow(`Invalid value "NaN" for Decimal`)
+    expect(Decimal.isValid('1.5')).toBe(true)
+    expect(Decimal.isValid('1.5.5')).toBe(false)
+  })
+})
+
+describe('mapBigIntsAndDecimals', () => {
+  const scalarField = (name: string, type: string) =>
+    new Field({
+      name,
+      schemaField: {
+        name,
+        args: [],
+        outputType: { type, kind: 'scalar', isList: false, isRequired: true },
+      },
+    })
+
+  const field = new Field({
+    name: 'findManyAccount',
+    schemaField: {
+      name: 'findManyAccount',
+      args: [],
+      outputType: {
+        type: 'Account',
+        kind: 'object',
+        isList: true,
+        isRequired: true,
+      },
+    },
+    children: [
+      scalarField('id', 'Long'),
+      scalarField('balance', 'Decimal'),
+      scalarField('name', 'String'),
+    ],
+  })
+
+  test('revives bigints and decimals', () => {
+    const data = mapBigIntsAndDecimals({
+      field,
+      data: [
+        { id: '9007199254740993', balance: '10.50', name: 'a' },
+        { id: '1', balance: null, name: 'b' },
+      ],
+    })
+
+    expect(data[0].id).toEqual(BigInt('9007199254740993'))
+    expect(data[0].balance).toBeInstanceOf(Decimal)
+    expect(String(data[0].balance)).toEqual('10.5')
+    expect(data[0].name).toEqual('a')
+    expect(data[1].id).toEqual(BigInt(1))
+    expect(data[1].balance).toBeNull()
+  })
+
+  test('collects the paths of the Long and Decimal fields', () => {
+    expect(getExactNumberPaths(new Document('query', [field]))).toEqual([
+      'findManyAccount.id',
+      'findManyAccount.balance',
+    ])
+  })
+})
@@ -0,0 +1,49 @@
+import { getErrorEvent } from '../runtime/getPrismaClient'
+import {
+  PrismaClientKnownRequestError,
+  PrismaClientRustPanicError,
+} from '../runtime'
+
+test('known request error', () => {
+  const error = new PrismaClientKnownRequestError(
+    'Unique constraint failed on the fields: (`email`)',
+    'P2002',
+  )
+  const event = getErrorEvent(error)
+
+  expect(event.message).toEqual(error.message)
+  expect(event.code).toEqual('P2002')
+  expect(event.isPanic).toEqual(false)
+  expect(event.error).toBe(error)
+})
+
+test('panic', () => {
+  const error = new PrismaClientRustPanicError('PANIC: oops')
+  const event = getErrorEvent(error)
+
+  expect(event.isPanic).toEqual(true)
+  expect(event.error).toBe(error)
+})
+
+test('engine error log', () => {
+  const timestamp = new Date()
+  const event = getErrorEvent({
+    timestamp,
+    level: 'error',
+    target: 'query_engine::server',
+    fields: {
+      message: 'PANIC',
+      reason: 'oops',
+      file: 'src/main.rs',
+      line: 1,
+      column: 2,
+    },
+  })
+
+  expect(event).toEqual({
+    timestamp,
+    message: 'PANIC: oops in src/main.rs:1:2',
+    target: 'query_engine::server',
+    isPanic: true,
+  })
+})
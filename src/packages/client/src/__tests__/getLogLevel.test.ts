@@ -37,3 +37,19 @@ test('strings and objects', () => {
 
   expect(level).toMatchInlineSnapshot(`"warn"`)
 })
+
+test('error', () => {
+  expect(getLogLevel(['error'])).toEqual('error')
+})
+
+test('warn has precedence over error', () => {
+  const level = getLogLevel([
+    'error',
+    {
+      emit: 'event',
+      level: 'warn',
+    },
+  ])
+
+  expect(level).toEqual('warn')
+})
@@ -0,0 +1,236 @@
+import {
+  getPrismaClient,
+  transformGroupByArgs,
+} from '../runtime/getPrismaClient'
+import { groupBy } from '../runtime/groupBy'
+import { Decimal } from '../runtime/utils/decimal'
+import { blog } from '../fixtures/blog'
+import { getDMMF } from '../generation/getDMMF'
+
+test('selects the grouped fields and aggregations', () => {
+  const args = transformGroupByArgs({
+    by: ['country', 'city'],
+    where: {
+      name: 'Bob',
+    },
+    having: {
+      city: {
+        not: 'Berlin',
+      },
+    },
+    count: true,
+    avg: {
+      age: true,
+    },
+  })
+
+  expect(args).toEqual({
+    by: ['country', 'city'],
+    where: {
+      name: 'Bob',
+    },
+    having: {
+      city: {
+        not: 'Berlin',
+      },
+    },
+    select: {
+      country: true,
+      city: true,
+      count: true,
+      avg: {
+        select: {
+          age: true,
+        },
+      },
+    },
+  })
+})
+
+describe('group in the client', () => {
+  const records = [
+    { country: 'Germany', city: 'Berlin', age: 20 },
+    { country: 'Germany', city: 'Berlin', age: 30 },
+    { country: 'Germany', city: 'Munich', age: null },
+    { country: 'France', city: 'Paris', age: 40 },
+  ]
+
+  test('group the records and aggregate their fields', async () => {
+    const calls: any[] = []
+    const groups = await groupBy({
+      findMany: (args) => {
+        calls.push(args)
+        return Promise.resolve(records)
+      },
+      args: {
+        by: ['country', 'city'],
+        where: { age: { gt: 18 } },
+        having: { city: { not: 'Hamburg' } },
+        orderBy: { country: 'desc' },
+        count: true,
+        avg: { age: true },
+        max: { age: true },
+      },
+    })
+
+    expect(calls).toEqual([
+      {
+        select: { country: true, city: true, age: true },
+        where: { AND: [{ age: { gt: 18 } }, { city: { not: 'Hamburg' } }] },
+        orderBy: { country: 'desc' },
+      },
+    ])
+    expect(groups).toEqual([
+      {
+        country: 'Germany',
+        city: 'Berlin',
+        count: 2,
+        avg: { age: 25 },
+        max: { age: 30 },
+      },
+      {
+        country: 'Germany',
+        city: 'Munich',
+        count: 1,
+        avg: { age: null },
+        max: { age: null },
+      },
+      {
+        country: 'France',
+        city: 'Paris',
+        count: 1,
+        avg: { age: 40 },
+        max: { age: 40 },
+      },
+    ])
+  })
+
+  test('paginate the groups', async () => {
+    const findMany = () => Promise.resolve(records)
+
+    expect(
+      await groupBy({ findMany, args: { by: ['city'], skip: 1, take: 1 } }),
+    ).toEqual([{ city: 'Munich' }])
+    expect(
+      await groupBy({ findMany, args: { by: ['city'], take: -1 } }),
+    ).toEqual([{ city: 'Paris' }])
+  })
+
+  test('pass the signal to findMany', async () => {
+    const signal = { aborted: false }
+    const findMany = jest.fn(() => Promise.resolve(records))
+
+    await groupBy({ findMany, args: { by: ['city'], signal } })
+
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ signal }))
+  })
+
+  test('reject having on fields, which are not grouped', async () => {
+    await expect(
+      groupBy({
+        findMany: () => Promise.resolve(records),
+        args: { by: ['country'], having: { age: { gt: 18 } } },
+      }),
+    ).rejects.toThrow(
+      'Invalid `having` arg of groupBy. The field `age` needs to be provided in `by`.',
+    )
+  })
+
+  test('filter the groups by aggregations', async () => {
+    const calls: any[] = []
+    const groups = await groupBy({
+      findMany: (args) => {
+        calls.push(args)
+        return Promise.resolve(records)
+      },
+      args: {
+        by: ['country'],
+        having: {
+          country: { not: 'Spain' },
+          count: { gt: 1 },
+          age: { avg: { gte: 20 }, max: { lt: 40 } },
+        },
+        count: true,
+      },
+    })
+
+    expect(calls).toEqual([
+      {
+        select: { country: true, age: true },
+        where: { country: { not: 'Spain' } },
+      },
+    ])
+    expect(groups).toEqual([{ country: 'Germany', count: 3 }])
+  })
+
+  test('aggregate decimals without losing precision', async () => {
+    const findMany = () =>
+      Promise.resolve([
+        { currency: 'EUR', amount: new Decimal('0.1') },
+        { currency: 'EUR', amount: new Decimal('0.2') },
+        { currency: 'EUR', amount: new Decimal('10') },
+      ])
+
+    const [group] = await groupBy({
+      findMany,
+      args: {
+        by: ['currency'],
+        having: { amount: { sum: { gt: '10.2' } } },
+        sum: { amount: true },
+        avg: { amount: true },
+        min: { amount: true },
+        max: { amount: true },
+      },
+    })
+
+    expect(String(group.sum.amount)).toEqual('10.3')
+    expect(String(group.avg.amount)).toEqual('3.43333333333333333333')
+    expect(String(group.min.amount)).toEqual('0.1')
+    expect(String(group.max.amount)).toEqual('10')
+  })
+
+  test('map the grouped dates and json values', async () => {
+    const PrismaClient = getPrismaClient({
+      document: await getDMMF({ datamodel: blog }),
+      relativePath: '',
+      dirname: __dirname,
+      internalDatasources: [],
+    })
+    const prisma = new PrismaClient()
+    const responses = {
+      findManyPost: [
+        { createdAt: '2020-01-01T00:00:00.000Z' },
+        { createdAt: '2020-01-01T00:00:00.000Z' },
+      ],
+      findManyUser: [{ json: '{"tags":["a"]}' }],
+    }
+
+    const respond = (query: string) => {
+      const rootField = query.includes('findManyPost')
+        ? 'findManyPost'
+        : 'findManyUser'
+      return {
+        data: { data: { [rootField]: responses[rootField] } },
+        elapsed: 0.1,
+      }
+    }
+
+    prisma.connect = () => Promise.resolve()
+    prisma.engine = {
+      request: (query) => Promise.resolve(respond(query)),
+      requestBatch: (queries) => Promise.resolve(queries.map(respond)),
+    }
+
+    const posts = await prisma.post.groupBy({
+      by: ['createdAt'],
+      count: true,
+    })
+    const users = await prisma.user.groupBy({ by: ['json'] })
+
+    expect(posts).toEqual([
+      { createdAt: new Date('2020-01-01T00:00:00.000Z'), count: 2 },
+    ])
+    expect(posts[0].createdAt).toBeInstanceOf(Date)
+    expect(users).toEqual([{ json: { tags: ['a'] } }])
+  })
+})
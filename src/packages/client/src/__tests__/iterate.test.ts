@@ -0,0 +1,207 @@
+import {
+  iterate,
+  iterateStream,
+  getCursor,
+  toReadable,
+} from '../runtime/iterate'
+import { DMMF } from '../runtime/dmmf-types'
+
+const model = ({
+  name: 'User',
+  idFields: [],
+  fields: [
+    { name: 'id', isId: true },
+    { name: 'email', isId: false },
+  ],
+} as any) as DMMF.Model
+
+const users = Array.from({ length: 7 }, (_, i) => ({
+  id: i + 1,
+  email: `user${i + 1}@prisma.io`,
+}))
+
+function sortBy(records: any[], orderBy: any) {
+  const orders = orderBy ? [].concat(orderBy) : [{ id: 'asc' }]
+  return [...records].sort((a, b) => {
+    for (const order of orders) {
+      for (const [field, direction] of Object.entries(order)) {
+        if (a[field] !== b[field]) {
+          return (
+            (a[field] < b[field] ? -1 : 1) * (direction === 'desc' ? -1 : 1)
+          )
+        }
+      }
+    }
+    return 0
+  })
+}
+
+function createFindMany(records = users) {
+  const calls: any[] = []
+
+  // minimal cursor pagination over `records`
+  const findMany = async (args: any) => {
+    calls.push(args)
+    const sorted = sortBy(records, args.orderBy)
+    let start = args.cursor
+      ? sorted.findIndex((u) => u.id === args.cursor.id)
+      : 0
+    start += args.skip ?? 0
+    return sorted.slice(start, start + args.take).map((u) =>
+      args.select
+        ? Object.keys(args.select).reduce((acc, key) => {
+            acc[key] = u[key]
+            return acc
+          }, {})
+        : u,
+    )
+  }
+
+  return { findMany, calls }
+}
+
+async function collect(iterator: AsyncIterable<any>) {
+  const result: any[] = []
+  for await (const record of iterator) {
+    result.push(record)
+  }
+  return result
+}
+
+test('iterates over all pages', async () => {
+  const { findMany, calls } = createFindMany()
+
+  const result = await collect(iterate({ findMany, model, pageSize: 3 }))
+
+  expect(result).toEqual(users)
+  expect(calls).toEqual([
+    { take: 3 },
+    { take: 3, cursor: { id: 3 }, skip: 1 },
+    { take: 3, cursor: { id: 6 }, skip: 1 },
+  ])
+})
+
+test('respects take and skip', async () => {
+  const { findMany, calls } = createFindMany()
+
+  const result = await collect(
+    iterate({ findMany, model, args: { skip: 1, take: 4 }, pageSize: 3 }),
+  )
+
+  expect(result.map((u) => u.id)).toEqual([2, 3, 4, 5])
+  expect(calls).toEqual([
+    { skip: 1, take: 3 },
+    { skip: 1, take: 1, cursor: { id: 4 } },
+  ])
+})
+
+test('selects the id fields for the cursor, but does not return them', async () => {
+  const { findMany, calls } = createFindMany()
+
+  const result = await collect(
+    iterate({
+      findMany,
+      model,
+      args: { select: { email: true } },
+      pageSize: 5,
+    }),
+  )
+
+  expect(result).toEqual(users.map((u) => ({ email: u.email })))
+  expect(calls[0]).toEqual({ select: { email: true, id: true }, take: 5 })
+})
+
+describe('orderBy', () => {
+  const posts = [
+    { id: 1, title: 'b' },
+    { id: 2, title: 'a' },
+    { id: 3, title: 'b' },
+    { id: 4, title: 'a' },
+    { id: 5, title: 'b' },
+  ]
+
+  test('appends the id as a tie-breaker to a non-unique sort field', async () => {
+    const { findMany, calls } = createFindMany(posts)
+
+    const result = await collect(
+      iterate({
+        findMany,
+        model,
+        args: { orderBy: { title: 'desc' } },
+        pageSize: 2,
+        canOrderByList: true,
+      }),
+    )
+
+    expect(result.map((p) => p.id)).toEqual([1, 3, 5, 2, 4])
+    expect(calls.map((c) => c.orderBy)).toEqual([
+      [{ title: 'desc' }, { id: 'asc' }],
+      [{ title: 'desc' }, { id: 'asc' }],
+      [{ title: 'desc' }, { id: 'asc' }],
+    ])
+  })
+
+  test('keeps the order by a unique field', async () => {
+    const { findMany, calls } = createFindMany()
+
+    await collect(
+      iterate({ findMany, model, args: { orderBy: { id: 'desc' } } }),
+    )
+
+    expect(calls[0].orderBy).toEqual({ id: 'desc' })
+  })
+
+  test('throws, if the engine can only order by one field', async () => {
+    const { findMany } = createFindMany(posts)
+
+    await expect(
+      collect(
+        iterate({ findMany, model, args: { orderBy: { title: 'asc' } } }),
+      ),
+    ).rejects.toThrow(
+      "Can't iterate over the model User ordered by `title`, as it's not unique",
+    )
+  })
+})
+
+test('throws for models without id', async () => {
+  const { findMany } = createFindMany()
+
+  await expect(
+    collect(
+      iterate({
+        findMany,
+        model: { ...model, fields: [{ name: 'email', isId: false }] } as any,
+      }),
+    ),
+  ).rejects.toThrow(`doesn't have an @id or @@id`)
+})
+
+test('compound id cursor', () => {
+  expect(getCursor({ a: 1, b: 2, c: 3 }, ['a', 'b'])).toEqual({
+    a_b: { a: 1, b: 2 },
+  })
+})
+
+test('stream', async () => {
+  const { findMany } = createFindMany()
+
+  const result = await collect(iterateStream({ findMany, model, pageSize: 2 }))
+
+  expect(result).toEqual(users)
+})
+
+test('stop the iteration when the stream is destroyed', async () => {
+  const { findMany } = createFindMany()
+  const iterator = iterate({ findMany, model, pageSize: 2 })
+  const stream = toReadable(iterator)
+
+  for await (const user of stream) {
+    if (user.id === 3) {
+      break
+    }
+  }
+
+  expect(stream.destroyed).toBe(true)
+  expect(await iterator.next()).toEqual({ done: true, value: undefined })
+})
@@ -0,0 +1,127 @@
+import {
+  getPrismaClient,
+  PrismaClientFetcher,
+} from '../runtime/getPrismaClient'
+import { blog } from '../fixtures/blog'
+import { getDMMF } from '../generation/getDMMF'
+import { DMMFClass, makeDocument } from '../runtime'
+
+test('logs model, action and duration of a request', async () => {
+  const dmmf = new DMMFClass(await getDMMF({ datamodel: blog }))
+  const records: any[] = []
+
+  const fetcher = new PrismaClientFetcher({
+    connect: () => Promise.resolve(),
+    logRequest: (record) => records.push(record),
+    engine: {
+      request: () => ({ data: { data: { findManyUser: [] } }, elapsed: 0.3 }),
+    },
+  })
+
+  await fetcher.request({
+    clientMethod: 'user.findMany',
+    dataPath: [],
+    document: makeDocument({
+      dmmf,
+      select: {},
+      rootTypeName: 'query',
+      rootField: 'findManyUser',
+    }),
+    isList: true,
+    rootField: 'findManyUser',
+    typeName: 'User',
+  })
+
+  expect(records).toEqual([
+    {
+      model: 'User',
+      action: 'findMany',
+      duration: 0.3,
+    },
+  ])
+})
+
+describe('forward engine logs to the logger', () => {
+  const timestamp = new Date('2020-01-01T00:00:00.000Z')
+
+  async function createClient(log: any[]) {
+    const PrismaClient = getPrismaClient({
+      document: await getDMMF({ datamodel: blog }),
+      relativePath: '',
+      dirname: __dirname,
+      internalDatasources: [],
+    })
+    const calls: any[] = []
+    const record = (method: string) => (...args) =>
+      calls.push([method, ...args])
+    const prisma = new PrismaClient({
+      log,
+      logger: {
+        debug: record('debug'),
+        info: record('info'),
+        warn: record('warn'),
+        error: record('error'),
+      },
+    })
+    const emit = (level: string, fields: object) =>
+      prisma.engine.logEmitter.emit(level, {
+        timestamp,
+        level,
+        target: 'quaint::connector',
+        fields,
+      })
+
+    return { calls, emit }
+  }
+
+  test('queries are passed to debug', async () => {
+    const { calls, emit } = await createClient(['query'])
+
+    emit('query', { query: 'SELECT 1', params: '[]', duration_ms: 2 })
+
+    expect(calls).toEqual([
+      [
+        'debug',
+        {
+          timestamp,
+          query: 'SELECT 1',
+          params: '[]',
+          duration: 2,
+          target: 'quaint::connector',
+        },
+        'SELECT 1',
+      ],
+    ])
+  })
+
+  test('info, warn and error are passed to the method of the same name', async () => {
+    const { calls, emit } = await createClient(['info', 'warn', 'error'])
+
+    emit('info', { message: 'Started http server' })
+    emit('warn', { message: 'Slow query' })
+    emit('error', { message: 'Connection lost' })
+
+    expect(calls).toEqual([
+      [
+        'info',
+        { timestamp, target: 'quaint::connector' },
+        'Started http server',
+      ],
+      ['warn', { timestamp, target: 'quaint::connector' }, 'Slow query'],
+      [
+        'error',
+        { timestamp, target: 'quaint::connector', isPanic: false },
+        'Connection lost',
+      ],
+    ])
+  })
+
+  test('levels, which are not logged, are not forwarded', async () => {
+    const { calls, emit } = await createClient(['warn'])
+
+    emit('info', { message: 'Started http server' })
+    emit('query', { query: 'SELECT 1', params: '[]', duration_ms: 2 })
+
+    expect(calls).toEqual([])
+  })
+})
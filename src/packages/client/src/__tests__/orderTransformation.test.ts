@@ -1,12 +1,30 @@
 import stripAnsi from 'strip-ansi'
 import { enums } from '../fixtures/enums'
-import { DMMFClass, makeDocument, transformDocument } from '../runtime'
+import { DMMF, DMMFClass, makeDocument, transformDocument } from '../runtime'
 import { getDMMF } from '../generation/getDMMF'
 
+// engines, which can order by multiple fields, accept a list of sort specs
+function withOrderByList(document: DMMF.Document): DMMF.Document {
+  for (const outputType of document.schema.outputTypes) {
+    for (const field of outputType.fields) {
+      for (const arg of field.args) {
+        if (arg.name === 'orderBy') {
+          arg.inputType = arg.inputType.map((t) => ({ ...t, isList: true }))
+        }
+      }
+    }
+  }
+  return document
+}
+
 describe('where transformation', () => {
   let dmmf
+  let listDmmf
   beforeAll(async () => {
     dmmf = new DMMFClass(await getDMMF({ datamodel: enums }))
+    listDmmf = new DMMFClass(
+      withOrderByList(await getDMMF({ datamodel: enums })),
+    )
   })
 
   test('transform correctly', () => {
@@ -132,6 +150,69 @@ describe('where transformation', () => {
     }
   })
 
+  test('transform a list of order by args', () => {
+    const select = {
+      orderBy: [{ name: 'asc' }, { email: 'desc' }],
+    }
+    const document = makeDocument({
+      dmmf: listDmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyUser',
+    })
+    document.validate(select, false, 'users')
+    expect(String(transformDocument(document))).toMatchInlineSnapshot(`
+      "query {
+        findManyUser(orderBy: [name_ASC, email_DESC]) {
+          id
+          name
+          email
+          status
+          nicknames
+          permissions
+          favoriteTree
+          locationId
+          someFloats
+        }
+      }"
+    `)
+  })
+
+  test('throw when 2 order by args provided in a list item', () => {
+    const select = {
+      orderBy: [{ name: 'asc' }, { email: 'desc', id: 'asc' }],
+    }
+    const document = makeDocument({
+      dmmf: listDmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyUser',
+    })
+    expect(() => document.validate(select, false, 'users')).toThrow(
+      'needs exactly one argument, but you provided email and id',
+    )
+  })
+
+  test('throw when a list of order by args is provided to an engine, which expects one', () => {
+    const select = {
+      orderBy: [{ name: 'asc' }, { email: 'desc' }],
+    }
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyUser',
+    })
+    expect.assertions(1)
+    try {
+      document.validate(select, false, 'users')
+    } catch (e) {
+      expect(stripAnsi(e.message)).toContain(
+        'Argument orderBy: Got invalid value',
+      )
+    }
+  })
+
   test('ignore order null', () => {
     const select = {
       orderBy: null,
@@ -0,0 +1,240 @@
+import { DMMF as ExternalDMMF } from '@prisma/generator-helper'
+import { getDMMF as getRawDMMF } from '@prisma/sdk'
+import stripAnsi from 'strip-ansi'
+import { blog } from '../fixtures/blog'
+import { DMMFClass, makeDocument, transformDocument } from '../runtime'
+import { getDMMF, getPrismaClientDMMF } from '../generation/getDMMF'
+
+function intArg(name: string): ExternalDMMF.SchemaArg {
+  return {
+    name,
+    inputType: {
+      type: 'Int',
+      kind: 'scalar',
+      isList: false,
+      isRequired: false,
+      isNullable: false,
+    },
+  }
+}
+
+// adds the sort specs and filters of engines, which support relation aggregates
+function withRelationAggregates(
+  document: ExternalDMMF.Document,
+): ExternalDMMF.Document {
+  for (const type of document.schema.enums) {
+    if (type.name === 'UserOrderByInput') {
+      type.values.push('posts_count_ASC', 'posts_count_DESC')
+    }
+    if (type.name === 'PostOrderByInput') {
+      type.values.push(
+        'author_name_ASC',
+        'author_name_DESC',
+        'author_email_ASC',
+        'author_email_DESC',
+      )
+    }
+  }
+  for (const type of document.schema.inputTypes) {
+    if (type.name === 'UserWhereInput') {
+      type.fields.push(intArg('posts_count'), intArg('posts_count_gt'))
+    }
+  }
+  return document
+}
+
+describe('relation aggregate transformation', () => {
+  let dmmf
+  beforeAll(async () => {
+    dmmf = new DMMFClass(
+      getPrismaClientDMMF(
+        withRelationAggregates(await getRawDMMF({ datamodel: blog })),
+      ),
+    )
+  })
+
+  test('leave out relation aggregates, which the engine does not support', async () => {
+    const engineDmmf = new DMMFClass(await getDMMF({ datamodel: blog }))
+    const select = {
+      orderBy: {
+        author: {
+          name: 'asc',
+        },
+      },
+    }
+    const document = makeDocument({
+      dmmf: engineDmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyPost',
+    })
+
+    expect(engineDmmf.inputTypeMap['UserWhereInput']).toBeDefined()
+    expect(
+      engineDmmf.inputTypeMap['PostFilter'].fields.map((f) => f.name),
+    ).not.toContain('count')
+    expect.assertions(3)
+    try {
+      document.validate(select, false, 'posts')
+    } catch (e) {
+      expect(stripAnsi(e.message)).toContain('Unknown arg `author`')
+    }
+  })
+
+  test('order by a field of a relation', () => {
+    const select = {
+      orderBy: {
+        author: {
+          name: 'asc',
+        },
+      },
+    }
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyPost',
+    })
+    document.validate(select, false, 'posts')
+    expect(String(transformDocument(document))).toMatchInlineSnapshot(`
+      "query {
+        findManyPost(orderBy: author_name_ASC) {
+          id
+          createdAt
+          updatedAt
+          published
+          title
+          content
+          authorId
+        }
+      }"
+    `)
+  })
+
+  test('order by the count of a relation', () => {
+    const select = {
+      orderBy: { posts: { count: 'desc' } },
+    }
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyUser',
+    })
+    document.validate(select, false, 'users')
+    expect(String(transformDocument(document))).toMatchInlineSnapshot(`
+      "query {
+        findManyUser(orderBy: posts_count_DESC) {
+          id
+          email
+          name
+          json
+        }
+      }"
+    `)
+  })
+
+  test('throw when ordering by 2 fields of a relation', () => {
+    const select = {
+      orderBy: {
+        author: {
+          name: 'asc',
+          email: 'asc',
+        },
+      },
+    }
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyPost',
+    })
+    expect(() => document.validate(select, false, 'posts')).toThrow(
+      'needs exactly one argument, but you provided name and email',
+    )
+  })
+
+  test('filter by the count of a relation', () => {
+    const select = {
+      where: {
+        posts: {
+          count: {
+            gt: 1,
+          },
+        },
+      },
+    }
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyUser',
+    })
+    document.validate(select, false, 'users')
+    expect(String(transformDocument(document))).toMatchInlineSnapshot(`
+      "query {
+        findManyUser(where: {
+          posts_count_gt: 1
+        }) {
+          id
+          email
+          name
+          json
+        }
+      }"
+    `)
+  })
+
+  test('filter by an exact count of a relation', () => {
+    const select = {
+      where: {
+        posts: {
+          count: 0,
+        },
+      },
+    }
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyUser',
+    })
+    document.validate(select, false, 'users')
+    expect(String(transformDocument(document))).toMatchInlineSnapshot(`
+      "query {
+        findManyUser(where: {
+          posts_count: 0
+        }) {
+          id
+          email
+          name
+          json
+        }
+      }"
+    `)
+  })
+
+  test('throw for an invalid relation count filter', () => {
+    const select = {
+      where: {
+        posts: {
+          count: 'many',
+        },
+      },
+    }
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyUser',
+    })
+    try {
+      document.validate(select, false, 'users')
+      throw new Error('should have thrown')
+    } catch (e) {
+      expect(stripAnsi(e.message)).toContain(
+        'Argument count: Got invalid value',
+      )
+    }
+  })
+})
@@ -0,0 +1,111 @@
+import { blog } from '../fixtures/blog'
+import { DMMFClass, makeDocument } from '../runtime'
+import { getDMMF } from '../generation/getDMMF'
+import {
+  extractRelationCounts,
+  getRelationCountRecords,
+  makeRelationCountDocument,
+} from '../runtime/relationCounts'
+
+describe('relation counts', () => {
+  let dmmf
+  beforeAll(async () => {
+    dmmf = new DMMFClass(await getDMMF({ datamodel: blog }))
+  })
+
+  test('remove the virtual count selection', () => {
+    const select = {
+      select: {
+        name: true,
+        _count: {
+          select: {
+            posts: true,
+          },
+        },
+      },
+    }
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyUser',
+    })
+    document.validate(select, false, 'users')
+
+    const result = extractRelationCounts(document, dmmf)
+    expect(String(result.document)).toMatchInlineSnapshot(`
+      "query {
+        findManyUser {
+          name
+          id
+        }
+      }"
+    `)
+    expect(result.infos).toEqual([
+      {
+        path: ['findManyUser'],
+        model: 'User',
+        relations: ['posts'],
+        idField: 'id',
+        addedIdField: true,
+      },
+    ])
+  })
+
+  test('keep documents without count selection', () => {
+    const document = makeDocument({
+      dmmf,
+      select: {},
+      rootTypeName: 'query',
+      rootField: 'findManyUser',
+    })
+
+    const result = extractRelationCounts(document, dmmf)
+    expect(result.document).toBe(document)
+    expect(result.infos).toEqual([])
+  })
+
+  test('count the related records of one record', () => {
+    const info = {
+      path: ['findManyUser'],
+      model: 'User',
+      relations: ['posts'],
+      idField: 'id',
+      addedIdField: false,
+    }
+
+    const { document, rootField } = makeRelationCountDocument(
+      dmmf,
+      info,
+      'posts',
+      'user-1',
+    )
+    expect(rootField).toEqual('aggregatePost')
+    expect(String(document)).toMatchInlineSnapshot(`
+      "query {
+        aggregatePost {
+          count(where: {
+            author: {
+              id: \\"user-1\\"
+            }
+          })
+        }
+      }"
+    `)
+  })
+
+  test('collect nested records', () => {
+    const data = {
+      findManyPost: [
+        { id: '1', author: { id: 'a' } },
+        { id: '2', author: null },
+        { id: '3', author: { id: 'b' } },
+      ],
+    }
+
+    expect(getRelationCountRecords(data, ['findManyPost', 'author'])).toEqual([
+      { id: 'a' },
+      { id: 'b' },
+    ])
+  })
+})
@@ -289,7 +289,7 @@ describe('scalar where transformation', () => {
     expect(String(transformDocument(document))).toMatchInlineSnapshot(`
       "query {
         findManyUser(where: {
-          favoriteTree_in: [\\"OAK\\", \\"BLASKASH\\"]
+          favoriteTree_in: [OAK, BLASKASH]
         }) {
           id
           name
@@ -0,0 +1,153 @@
+import { DMMF as ExternalDMMF } from '@prisma/generator-helper'
+import { getDMMF as getRawDMMF } from '@prisma/sdk'
+import stripAnsi from 'strip-ansi'
+import { blog } from '../fixtures/blog'
+import { DMMFClass, makeDocument, transformDocument } from '../runtime'
+import { ConnectorType } from '../runtime/utils/printDatasources'
+import { getDMMF, getPrismaClientDMMF } from '../generation/getDMMF'
+
+function stringArg(name: string): ExternalDMMF.SchemaArg {
+  return {
+    name,
+    inputType: {
+      type: 'String',
+      kind: 'scalar',
+      isList: false,
+      isRequired: false,
+      isNullable: false,
+    },
+  }
+}
+
+// adds the filters of engines, which support string filter modes
+async function getDMMFWithFilterModes(connectorType?: ConnectorType) {
+  const document = await getRawDMMF({ datamodel: blog })
+  for (const type of document.schema.inputTypes) {
+    if (type.name === 'PostWhereInput') {
+      type.fields.push(
+        stringArg('title_mode'),
+        stringArg('content_mode'),
+        stringArg('title_search'),
+        stringArg('content_search'),
+      )
+    }
+  }
+  return getPrismaClientDMMF(document, connectorType)
+}
+
+describe('string filter modes', () => {
+  let dmmf
+  beforeAll(async () => {
+    dmmf = new DMMFClass(await getDMMFWithFilterModes())
+  })
+
+  test('filter case insensitive', () => {
+    const select = {
+      where: {
+        title: {
+          contains: 'prisma',
+          mode: 'insensitive',
+        },
+      },
+    }
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyPost',
+    })
+    document.validate(select, false, 'posts')
+    expect(String(transformDocument(document))).toMatchInlineSnapshot(`
+      "query {
+        findManyPost(where: {
+          title_contains: \\"prisma\\"
+          title_mode: insensitive
+        }) {
+          id
+          createdAt
+          updatedAt
+          published
+          title
+          content
+          authorId
+        }
+      }"
+    `)
+  })
+
+  test('full-text search', () => {
+    const select = {
+      where: {
+        content: {
+          search: 'cat & dog',
+        },
+      },
+    }
+    const document = makeDocument({
+      dmmf,
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyPost',
+    })
+    document.validate(select, false, 'posts')
+    expect(String(transformDocument(document))).toMatchInlineSnapshot(`
+      "query {
+        findManyPost(where: {
+          content_search: \\"cat & dog\\"
+        }) {
+          id
+          createdAt
+          updatedAt
+          published
+          title
+          content
+          authorId
+        }
+      }"
+    `)
+  })
+
+  test('leave out modes the engine does not support', async () => {
+    const engineDmmf = await getDMMF({ datamodel: blog })
+    const stringFilter = engineDmmf.schema.inputTypes.find(
+      (t) => t.name === 'StringFilter',
+    )!
+    expect(stringFilter.fields.map((f) => f.name)).not.toContain('mode')
+    expect(stringFilter.fields.map((f) => f.name)).not.toContain('search')
+    expect(engineDmmf.schema.enums.some((e) => e.name === 'QueryMode')).toBe(
+      false,
+    )
+  })
+
+  test('reject modes the connector does not support', async () => {
+    const sqliteDmmf = await getDMMFWithFilterModes('sqlite')
+    const stringFilter = sqliteDmmf.schema.inputTypes.find(
+      (t) => t.name === 'StringFilter',
+    )!
+    expect(stringFilter.fields.map((f) => f.name)).toContain('search')
+    expect(stringFilter.fields.map((f) => f.name)).not.toContain('mode')
+
+    const select = {
+      where: {
+        title: {
+          equals: 'prisma',
+          mode: 'insensitive',
+        },
+      },
+    }
+    const document = makeDocument({
+      dmmf: new DMMFClass(sqliteDmmf),
+      select,
+      rootTypeName: 'query',
+      rootField: 'findManyPost',
+    })
+    expect.assertions(3)
+    try {
+      document.validate(select, false, 'posts')
+    } catch (e) {
+      expect(stripAnsi(e.message)).toContain(
+        'Unknown arg `mode` in where.title.mode for type StringFilter. The mode filter is not supported by the connector of your datasource or by the query engine.',
+      )
+    }
+  })
+})
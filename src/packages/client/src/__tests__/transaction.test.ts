@@ -0,0 +1,139 @@
+import { getPrismaClient } from '../runtime/getPrismaClient'
+import { blog } from '../fixtures/blog'
+import { getDMMF } from '../generation/getDMMF'
+
+async function createClient() {
+  const PrismaClient = getPrismaClient({
+    document: await getDMMF({ datamodel: blog }),
+    relativePath: '',
+    dirname: __dirname,
+    internalDatasources: [],
+  })
+  const prisma = new PrismaClient()
+  const calls: any[] = []
+  const response = { data: { data: { findManyUser: [] } }, elapsed: 0.1 }
+
+  prisma.connect = () => Promise.resolve()
+  prisma.engine = {
+    transaction: (action, id) => {
+      calls.push(['transaction', action, id])
+      return Promise.resolve(action === 'start' ? { id: 'tx-1' } : undefined)
+    },
+    request: (query, { transactionId }) => {
+      calls.push(['request', transactionId])
+      return Promise.resolve(response)
+    },
+    requestBatch: (queries, transaction) => {
+      calls.push(['requestBatch', queries.length, transaction])
+      return Promise.resolve(queries.map(() => response))
+    },
+  }
+
+  return { prisma, calls }
+}
+
+describe('interactive transaction', () => {
+  test('commit when the callback resolves', async () => {
+    const { prisma, calls } = await createClient()
+
+    const result = await prisma.transaction(async (tx) => {
+      await tx.user.findMany()
+      await tx.user.findMany()
+      return 'done'
+    })
+
+    expect(result).toEqual('done')
+    expect(calls).toEqual([
+      ['transaction', 'start', undefined],
+      ['request', 'tx-1'],
+      ['request', 'tx-1'],
+      ['transaction', 'commit', 'tx-1'],
+    ])
+  })
+
+  test('roll back when the callback rejects', async () => {
+    const { prisma, calls } = await createClient()
+
+    await expect(
+      prisma.transaction(async (tx) => {
+        await tx.user.findMany()
+        throw new Error('Something went wrong')
+      }),
+    ).rejects.toThrow('Something went wrong')
+    expect(calls).toEqual([
+      ['transaction', 'start', undefined],
+      ['request', 'tx-1'],
+      ['transaction', 'rollback', 'tx-1'],
+    ])
+  })
+})
+
+describe('batch transaction', () => {
+  test('send requests delayed by middlewares in one batch', async () => {
+    const { prisma, calls } = await createClient()
+    let delay = 0
+    prisma.use(async (params, next) => {
+      await new Promise((resolve) => setTimeout(resolve, (delay += 10)))
+      return next(params)
+    })
+
+    await prisma.transaction([prisma.user.findMany(), prisma.user.findMany()])
+    expect(calls).toEqual([['requestBatch', 2, true]])
+  })
+
+  test('send a single request in a transaction', async () => {
+    const { prisma, calls } = await createClient()
+
+    await prisma.transaction([prisma.user.findMany()])
+    expect(calls).toEqual([['requestBatch', 1, true]])
+  })
+
+  test('send nothing if an element is not a Prisma Client promise', async () => {
+    const { prisma, calls } = await createClient()
+
+    await expect(
+      prisma.transaction([prisma.user.findMany(), Promise.resolve()]),
+    ).rejects.toThrow('All elements of the array need to be Prisma Client')
+    expect(calls).toEqual([])
+  })
+
+  test('send nothing if an element has already been awaited', async () => {
+    const { prisma, calls } = await createClient()
+    const users = prisma.user.findMany()
+    await users
+
+    await expect(
+      prisma.transaction([prisma.user.findMany(), users]),
+    ).rejects.toThrow(
+      'The Prisma Client promise at index 1 of the array has already been sent outside of the transaction',
+    )
+    await expect(
+      prisma.transaction([prisma.user.findMany(), await users]),
+    ).rejects.toThrow(
+      'All elements of the array need to be Prisma Client promises, but the element at index 1 is not',
+    )
+    expect(calls).toEqual([['request', undefined]])
+  })
+
+  test('send nothing if an element is passed more than once', async () => {
+    const { prisma, calls } = await createClient()
+    const users = prisma.user.findMany()
+
+    await expect(prisma.transaction([users, users])).rejects.toThrow(
+      'The Prisma Client promise at index 1 of the array is passed to the transaction more than once',
+    )
+    expect(calls).toEqual([])
+  })
+
+  test('send nothing if a request is invalid', async () => {
+    const { prisma, calls } = await createClient()
+
+    await expect(
+      prisma.transaction([
+        prisma.user.findMany(),
+        prisma.user.findMany({ where: { unknownField: 1 } }),
+      ]),
+    ).rejects.toThrow('Unknown arg `unknownField`')
+    expect(calls).toEqual([])
+  })
+})
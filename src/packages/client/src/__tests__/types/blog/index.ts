@@ -19,6 +19,42 @@ async function main() {
 
   prismaVersion.client
 
+  const prismaWithLogs = new PrismaClient({
+    log: [
+      'info',
+      'warn',
+      'query',
+      {
+        emit: 'event',
+        level: 'error',
+      },
+    ],
+  })
+
+  const prismaWithLogger = new PrismaClient({
+    log: ['query', 'error'],
+    logger: {
+      debug: (record) => console.debug(record),
+      error: (record) => console.error(record),
+    },
+  })
+
+  prismaWithLogs.on('error', (event) => {
+    const isPanic: boolean = event.isPanic
+    const code: string | undefined = event.code
+  })
+
+  prisma.use(async (params, next) => {
+    if (params.model === 'Post' && params.action === 'findMany') {
+      return next({
+        ...params,
+        args: { ...params.args, where: { published: true } },
+      })
+    }
+
+    return next(params)
+  })
+
   sql`SELECT * FROM ${raw('User')} WHERE 'id' in ${join([1, 2, 3])} ${empty} `
 
   const result1 = await prisma.user.findMany({
@@ -128,6 +164,59 @@ async function main() {
     },
   })
 
+  const [transactionUser, transactionPosts]: [
+    User,
+    Post[],
+  ] = await prisma.transaction([
+    prisma.user.create({ data: { email: 'a@a.de' } }),
+    prisma.post.findMany(),
+  ])
+
+  const transactionCount: number = await prisma.transaction(async (tx) => {
+    await tx.post.updateMany({ data: { published: true } })
+    return tx.post.count()
+  })
+
+  // avg, sum, min and max are only generated, if the engine supports them
+  const aggregate = await prisma.machineData.aggregate({
+    where: {
+      os: 'linux',
+    },
+    count: true,
+  })
+
+  const aggregateCount: number = aggregate.count
+
+  const groups = await prisma.post.groupBy({
+    by: ['authorId', 'published'],
+    where: { title: { contains: 'prisma' } },
+    having: { published: true },
+    count: true,
+  })
+
+  const groupAuthorId: string | null = groups[0].authorId
+  const groupCount: number = groups[0].count
+
+  await prisma.post.groupBy({
+    by: ['authorId'],
+    having: { count: { gt: 1 } },
+  })
+
+  await prisma.post.groupBy({
+    by: ['authorId'],
+    // @ts-expect-error
+    having: { title: { contains: 'prisma' } },
+  })
+
+  const cachedUsers: User[] = await prisma.user.findMany({
+    cache: { ttl: 1000 },
+  })
+
+  const uncachedUser: User | null = await prisma.user.findOne({
+    where: { id: '' },
+    cache: false,
+  })
+
   const disconnect: Promise<void> = prisma.disconnect()
 
   // Trick to define a "positive" test, if "include" is NOT in "FindManyMachineDataArgs"
@@ -151,6 +240,14 @@ async function main() {
 
   const id = users[0].posts[0].author?.id
 
+  const usersWithPostCount = await prisma.user.findMany({
+    select: {
+      name: true,
+      _count: { select: { posts: true } },
+    },
+  })
+  const postCount: number = usersWithPostCount[0]._count.posts
+
   const like = await prisma.like.findOne({
     where: {
       userId_postId: {
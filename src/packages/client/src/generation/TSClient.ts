@@ -7,6 +7,7 @@ import { BaseField, DMMF } from '../runtime/dmmf-types'
 import pluralize from 'pluralize'
 import {
   capitalize,
+  getOutputTypeName,
   GraphQLScalarToJSTypeTable,
   lowerCase,
 } from '../runtime/utils/common'
@@ -22,6 +23,16 @@ import {
   getSelectReturnType,
   Projection,
   getArgName,
+  getAggregateName,
+  getAggregateArgsName,
+  getAggregateGetName,
+  getAggregateInputName,
+  getGroupByArgsName,
+  getGroupByHavingAggregatesName,
+  getGroupByHavingName,
+  getGroupByPayloadName,
+  getScalarFieldEnumName,
+  isQueryAction,
 } from './utils'
 import { uniqueBy } from '../runtime/utils/uniqueBy'
 import { GetPrismaClientOptions } from '../runtime/getPrismaClient'
@@ -60,6 +71,9 @@ const {
   PrismaClientRustPanicError,
   PrismaClientInitializationError,
   PrismaClientValidationError,
+  PrismaClientTimeoutError,
+  AbortError,
+  Decimal,
   getPrismaClient,
   debugLib,
   sqltag
@@ -85,6 +99,9 @@ exports.PrismaClientUnknownRequestError = PrismaClientUnknownRequestError;
 exports.PrismaClientRustPanicError = PrismaClientRustPanicError;
 exports.PrismaClientInitializationError = PrismaClientInitializationError;
 exports.PrismaClientValidationError = PrismaClientValidationError;
+exports.PrismaClientTimeoutError = PrismaClientTimeoutError;
+exports.AbortError = AbortError;
+exports.Decimal = Decimal;
 
 /**
  * Re-export of sql-template-tag
@@ -100,7 +117,8 @@ const commonCodeTS = ({
   runtimePath,
   clientVersion,
   engineVersion,
-}: CommonCodeParams): string => `import {
+}: CommonCodeParams): string => `import { Readable } from 'stream';
+import {
   DMMF,
   DMMFClass,
   Engine,
@@ -109,6 +127,10 @@ const commonCodeTS = ({
   PrismaClientRustPanicError,
   PrismaClientInitializationError,
   PrismaClientValidationError,
+  PrismaClientTimeoutError,
+  AbortError,
+  AbortSignalLike,
+  Decimal,
   sqltag as sql,
   empty,
   join,
@@ -120,6 +142,10 @@ export { PrismaClientUnknownRequestError }
 export { PrismaClientRustPanicError }
 export { PrismaClientInitializationError }
 export { PrismaClientValidationError }
+export { PrismaClientTimeoutError }
+export { AbortError }
+export type { AbortSignalLike }
+export { Decimal }
 
 /**
  * Re-export of sql-template-tag
@@ -197,6 +223,30 @@ export declare type TrueKeys<T> = {
   [key in keyof T]: T[key] extends false | undefined | null ? never : key
 }[keyof T]
 
+/**
+ * Filters an aggregated value in the \`having\` arg of groupBy
+ */
+export declare type AggregateFilter<T> = T | {
+  equals?: T | null
+  not?: T | null
+  in?: Array<T>
+  notIn?: Array<T>
+  lt?: T
+  lte?: T
+  gt?: T
+  gte?: T
+}
+
+/**
+ * Allows the filters of both types for each key of \`having\` in groupBy,
+ * e.g. \`{ age: { gt: 18 } }\` on a grouped field or \`{ age: { avg: { gt: 18 } } }\`
+ */
+export declare type HavingInput<W, A> = {
+  [K in keyof W | keyof A]?:
+    | (K extends keyof W ? W[K] : never)
+    | (K extends keyof A ? A[K] : never)
+}
+
 /**
  * Subset
  * @desc From \`T\` pick properties that exist in \`U\`. Simple version of Intersection
@@ -431,19 +481,69 @@ export interface PrismaClientOptions {
    * @example
    * \`\`\`
    * // Defaults to stdout
-   * log: ['query', 'info', 'warn']
+   * log: ['query', 'info', 'warn', 'error']
    * 
    * // Emit as events
    * log: [
    *  { emit: 'stdout', level: 'query' },
    *  { emit: 'stdout', level: 'info' },
-   *  { emit: 'stdout', level: 'warn' }
+   *  { emit: 'stdout', level: 'warn' },
+   *  { emit: 'event', level: 'error' }
    * ]
    * \`\`\`
    * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/logging#the-log-option).
    */
   log?: Array<LogLevel | LogDefinition>
 
+  /**
+   * Receives the logs of the levels that would otherwise be printed to stdout.
+   * Compatible with loggers like pino or bunyan.
+   * @example
+   * \`\`\`
+   * const prisma = new PrismaClient({
+   *   log: ['query', 'info', 'warn', 'error'],
+   *   logger: pino(),
+   * })
+   * \`\`\`
+   */
+  logger?: Logger
+
+  /**
+   * Caches the results of queries. Cached results of a model are invalidated
+   * when a mutation of the model or of a related model goes through the client.
+   * @example
+   * \`\`\`
+   * // Cache all queries for 1 second
+   * cache: { ttl: 1000 }
+   *
+   * // Only cache specific queries
+   * await prisma.user.findMany({ cache: { ttl: 1000 } })
+   * \`\`\`
+   */
+  cache?: {
+    /**
+     * Time in milliseconds results are cached for by default
+     */
+    ttl?: number
+    /**
+     * Defaults to an in-memory LRU cache
+     */
+    adapter?: CacheAdapter
+  }
+
+  /**
+   * Time in milliseconds after which a query is aborted and rejects with a
+   * \`PrismaClientTimeoutError\`. Single queries can also be cancelled with an
+   * \`AbortSignal\`.
+   * @example
+   * \`\`\`
+   * const controller = new AbortController()
+   * const users = prisma.user.findMany({ signal: controller.signal })
+   * controller.abort() // rejects with an AbortError
+   * \`\`\`
+   */
+  queryTimeout?: number
+
   /**
    * You probably don't want to use this. \`__internal\` is used by internal tooling.
    */
@@ -462,15 +562,87 @@ export type Hooks = {
   beforeRequest?: (options: {query: string, path: string[], rootField?: string, typeName?: string, document: any}) => any
 }
 
+export type CacheOptions = {
+  /**
+   * Time in milliseconds the result is cached for
+   */
+  ttl: number
+}
+
+/**
+ * Storage for cached query results. Values are the serialized engine responses.
+ */
+export interface CacheAdapter {
+  get(key: string): Promise<string | undefined> | string | undefined
+  set(key: string, value: string, ttl: number): Promise<void> | void
+  delete(key: string): Promise<void> | void
+}
+
+export type CacheArgs = {
+  /**
+   * Caches the result. \`true\` uses the \`cache\` option of the client, \`false\` bypasses the cache.
+   */
+  cache?: CacheOptions | boolean
+}
+
+export type RequestArgs = {
+  /**
+   * Cancels the request, when the signal is aborted. The request then rejects with an \`AbortError\`.
+   */
+  signal?: AbortSignalLike
+}
+
+export type IterateOptions = {
+  /**
+   * How many records are fetched from the database per request
+   * @default 100
+   */
+  pageSize?: number
+}
+
+export type Action = 'findOne' | 'findMany' | 'create' | 'update' | 'updateMany' | 'upsert' | 'delete' | 'deleteMany' | 'count' | 'aggregate' | 'groupBy'
+
+/**
+ * These options are being passed in to the middleware as "params"
+ */
+export type MiddlewareParams = {
+  model: string
+  action: Action
+  args: any
+  dataPath: string[]
+  runInTransaction: boolean
+}
+
+/**
+ * The \`T\` type makes sure, that the result of \`next\` is returned from the middleware
+ */
+export type Middleware<T = any> = (
+  params: MiddlewareParams,
+  next: (params: MiddlewareParams) => Promise<T>,
+) => Promise<T>
+
 /* Types for Logging */
-export type LogLevel = 'info' | 'query' | 'warn'
+export type LogFunction = (record: Record<string, any>, message: string) => any
+
+/**
+ * \`query\` logs are passed to \`debug\`, all other levels to the method of the same name
+ * The methods are called like the ones of pino, with the record and the message
+ */
+export type Logger = {
+  debug?: LogFunction
+  info?: LogFunction
+  warn?: LogFunction
+  error?: LogFunction
+}
+
+export type LogLevel = 'info' | 'query' | 'warn' | 'error'
 export type LogDefinition = {
   level: LogLevel
   emit: 'stdout' | 'event'
 }
 
 export type GetLogType<T extends LogLevel | LogDefinition> = T extends LogDefinition ? T['emit'] extends 'event' ? T['level'] : never : never
-export type GetEvents<T extends Array<LogLevel | LogDefinition>> = GetLogType<T[0]> | GetLogType<T[1]> | GetLogType<T[2]>
+export type GetEvents<T extends Array<LogLevel | LogDefinition>> = GetLogType<T[number]>
 
 export type QueryEvent = {
   timestamp: Date
@@ -485,11 +657,44 @@ export type LogEvent = {
   message: string
   target: string
 }
+
+export type ErrorEvent = LogEvent & {
+  /**
+   * The error code of a known request error, e.g. \`P2002\`
+   */
+  code?: string
+  /**
+   * Whether the query engine panicked
+   */
+  isPanic: boolean
+  /**
+   * The error that has been thrown to the caller, if the error happened during a request
+   */
+  error?: Error
+}
 /* End Types for Logging */
 
 // tested in getLogLevel.test.ts
 export declare function getLogLevel(log: Array<LogLevel | LogDefinition>): LogLevel | undefined;
 
+/**
+ * The client that is passed to the callback of \`prisma.transaction()\`.
+ * All queries made with it are executed in the same transaction.
+ */
+export type TransactionClient = {
+${indent(
+  dmmf.mappings
+    .filter((m) => m.findMany)
+    .map((m) => `readonly ${lowerCase(m.model)}: ${m.model}Delegate`)
+    .join('\n'),
+  2,
+)}
+}
+
+export type UnwrapTuple<T extends readonly unknown[]> = {
+  [K in keyof T]: T[K] extends Promise<infer U> ? U : T[K]
+}
+
 ${this.jsDoc}
 export declare class PrismaClient<T extends PrismaClientOptions = {}, U = keyof T extends 'log' ? T['log'] extends Array<LogLevel | LogDefinition> ? GetEvents<T['log']> : never : never> {
   /**
@@ -527,7 +732,20 @@ export declare class PrismaClient<T extends PrismaClientOptions = {}, U = keyof
 
 ${indent(this.jsDoc, tab)}
   constructor(optionsArg?: T);
-  on<V extends U>(eventType: V, callback: V extends never ? never : (event: V extends 'query' ? QueryEvent : LogEvent) => void): void;
+  on<V extends U>(eventType: V, callback: V extends never ? never : (event: V extends 'query' ? QueryEvent : V extends 'error' ? ErrorEvent : LogEvent) => void): void;
+  /**
+   * Add a middleware
+   * @example
+   * \`\`\`
+   * prisma.use(async (params, next) => {
+   *   const before = Date.now()
+   *   const result = await next(params)
+   *   console.log(\`\${params.model}.\${params.action} took \${Date.now() - before}ms\`)
+   *   return result
+   * })
+   * \`\`\`
+   */
+  use(cb: Middleware): void;
   /**
    * Connect with the database
    */
@@ -554,6 +772,26 @@ ${indent(this.jsDoc, tab)}
   */
   raw<T = any>(query: string | TemplateStringsArray, ...values: any[]): Promise<T>;
 
+  /**
+   * Executes queries in a transaction.
+   * @example
+   * \`\`\`
+   * // Sends all queries as one batch that is executed in a transaction
+   * const [user, posts] = await prisma.transaction([
+   *   prisma.user.create({ data: { email: 'ema.il' } }),
+   *   prisma.post.findMany(),
+   * ])
+   * // Or run your own logic, the transaction is rolled back if the callback throws
+   * const user = await prisma.transaction(async (tx) => {
+   *   const user = await tx.user.create({ data: { email: 'ema.il' } })
+   *   await tx.post.updateMany({ data: { published: true } })
+   *   return user
+   * })
+   * \`\`\`
+   */
+  transaction<R>(fn: (prisma: TransactionClient) => Promise<R>): Promise<R>;
+  transaction<P extends Promise<any>[] | []>(promises: P): Promise<UnwrapTuple<P>>;
+
 ${indent(
   dmmf.mappings
     .filter((m) => m.findMany)
@@ -697,6 +935,15 @@ export class Model implements Generatable {
 
     return argsTypes
   }
+  protected get countOutputType(): DMMF.OutputType | undefined {
+    const countField = this.outputType?.fields.find(
+      (f) => f.name === '_count' && f.isVirtual,
+    )
+
+    return countField
+      ? (countField.outputType.type as DMMF.OutputType)
+      : undefined
+  }
   public toTS(): string {
     const { model, outputType } = this
 
@@ -750,8 +997,19 @@ ${indent(
 )}
 }
 ${includeType}
+${this.countOutputType ? new CountOutputType(this.countOutputType).toTS() : ''}
 ${new PayloadType(this.outputType!).toTS()}
 
+${new Aggregate(
+  model,
+  this.dmmf.outputTypeMap[getAggregateName(model.name)],
+).toTS()}
+
+${new GroupBy(
+  model,
+  this.dmmf.outputTypeMap[getAggregateName(model.name)],
+).toTS()}
+
 ${new ModelDelegate(this.outputType!, this.dmmf).toTS()}
 
 // Custom InputTypes
@@ -921,6 +1179,207 @@ function wrapComment(str: string): string {
     .join('\n')}\n**/`
 }
 
+const aggregationNames = ['avg', 'sum', 'min', 'max']
+
+/**
+ * The virtual `_count` selection, which counts the records of relation lists
+ */
+export class CountOutputType implements Generatable {
+  constructor(protected readonly type: DMMF.OutputType) {}
+  public toTS(): string {
+    const { name, fields } = this.type
+    const argsName = getArgName(name, false)
+
+    return `
+export type ${name} = {
+${indent(fields.map((f) => `${f.name}: number`).join('\n'), tab)}
+}
+
+export type ${getSelectName(name)} = {
+${indent(fields.map((f) => `${f.name}?: boolean`).join('\n'), tab)}
+}
+
+export type ${argsName} = {
+  /**
+   * Select the relations to count
+  **/
+  select?: ${getSelectName(name)} | null
+}
+
+export type ${getPayloadName(name)}<
+  S extends boolean | null | undefined | ${argsName},
+  U = keyof S
+> = S extends true
+  ? ${name}
+  : S extends undefined
+  ? never
+  : S extends ${argsName}
+  ? 'select' extends U
+    ? {
+      [P in TrueKeys<S['select']>]: P extends keyof ${name} ? ${name}[P] : never
+    }
+  : ${name}
+: ${name}
+`
+  }
+}
+
+export class Aggregate implements Generatable {
+  constructor(
+    protected readonly model: DMMF.Model,
+    protected readonly outputType?: DMMF.OutputType,
+  ) {}
+  public toTS(): string {
+    const { name } = this.model
+    // avg, sum, min and max are only generated, if the engine supports them
+    const aggregations = (this.outputType?.fields ?? []).filter(
+      (f) =>
+        aggregationNames.includes(f.name) && f.outputType.kind === 'object',
+    )
+
+    return `\
+export type ${getAggregateName(name)} = {
+  count: number${aggregations
+    .map((f) => `\n  ${f.name}: ${getOutputTypeName(f.outputType.type)} | null`)
+    .join('')}
+}
+${aggregations.map((f) => new Aggregation(name, f).toTS()).join('\n')}
+export type ${getAggregateArgsName(name)} = Omit<${getModelArgName(
+      name,
+      DMMF.ModelAction.findMany,
+    )}, 'select' | 'include'> & {
+  count?: true${aggregations
+    .map((f) => `\n  ${f.name}?: ${getAggregateInputName(name, f.name)}`)
+    .join('')}
+}
+
+export type ${getAggregateGetName(name)}<T extends ${getAggregateArgsName(
+      name,
+    )}> = {
+  [P in keyof T & keyof ${getAggregateName(name)}]: P extends 'count'
+    ? number
+    : {
+        [K in keyof T[P]]: K extends keyof NonNullable<${getAggregateName(
+          name,
+        )}[P]>
+          ? NonNullable<${getAggregateName(name)}[P]>[K]
+          : never
+      } | null
+}`
+  }
+}
+
+/**
+ * The fields of one aggregation like `avg`, which are the numeric fields of the model
+ */
+class Aggregation implements Generatable {
+  constructor(
+    protected readonly modelName: string,
+    protected readonly field: DMMF.SchemaField,
+  ) {}
+  public toTS(): string {
+    const outputType = this.field.outputType.type as DMMF.OutputType
+
+    return `
+export type ${getAggregateInputName(this.modelName, this.field.name)} = {
+${indent(outputType.fields.map((f) => `${f.name}?: true`).join('\n'), tab)}
+}
+
+export type ${outputType.name} = {
+${indent(
+  outputType.fields
+    .map((f) => `${f.name}: ${getAggregatedFieldType(f)} | null`)
+    .join('\n'),
+  tab,
+)}
+}
+`
+  }
+}
+
+/**
+ * The scalars, which can be provided as different JS types like `Decimal`,
+ * are always returned as the first one
+ */
+function getAggregatedFieldType(field: DMMF.SchemaField): string {
+  const typeName = getOutputTypeName(field.outputType.type)
+  const type = GraphQLScalarToJSTypeTable[typeName] || typeName
+  return Array.isArray(type) ? type[0] : type
+}
+
+export class GroupBy implements Generatable {
+  constructor(
+    protected readonly model: DMMF.Model,
+    protected readonly aggregateOutputType?: DMMF.OutputType,
+  ) {}
+  public toTS(): string {
+    const { name } = this.model
+    const scalarFields = this.model.fields.filter((f) => f.kind !== 'object')
+    const findManyArgsName = getModelArgName(name, DMMF.ModelAction.findMany)
+
+    return `\
+export type ${getScalarFieldEnumName(name)} = ${scalarFields
+      .map((f) => `'${f.name}'`)
+      .join(' | ')}
+
+${this.getHavingAggregatesTS()}
+
+export type ${getGroupByArgsName(name)} = ${getAggregateArgsName(name)} & {
+  by: Array<${getScalarFieldEnumName(name)}>
+  having?: HavingInput<NonNullable<${findManyArgsName}['where']>, ${getGroupByHavingAggregatesName(
+      name,
+    )}>
+}
+
+/**
+ * Only allows to filter on grouped fields and on aggregations in \`having\`
+ */
+export type ${getGroupByHavingName(name)}<T extends ${getGroupByArgsName(
+      name,
+    )}> = {
+  having?: Subset<T['having'], Pick<NonNullable<${findManyArgsName}['where']>, T['by'][number]> & ${getGroupByHavingAggregatesName(
+      name,
+    )}>
+}
+
+export type ${getGroupByPayloadName(name)}<T extends ${getGroupByArgsName(
+      name,
+    )}> = Array<
+  Pick<${name}, T['by'][number]> & ${getAggregateGetName(name)}<T>
+>`
+  }
+  /**
+   * The filters on aggregations like \`{ age: { avg: { gt: 18 } } }\`
+   */
+  private getHavingAggregatesTS(): string {
+    const aggregations = (this.aggregateOutputType?.fields ?? []).filter(
+      (f) =>
+        aggregationNames.includes(f.name) && f.outputType.kind === 'object',
+    )
+    const filters: { [field: string]: string[] } = {}
+    for (const aggregation of aggregations) {
+      const outputType = aggregation.outputType.type as DMMF.OutputType
+      for (const field of outputType.fields) {
+        filters[field.name] = filters[field.name] ?? []
+        filters[field.name].push(
+          `${aggregation.name}?: AggregateFilter<${getAggregatedFieldType(
+            field,
+          )}>`,
+        )
+      }
+    }
+
+    return `export type ${getGroupByHavingAggregatesName(this.model.name)} = {
+  count?: AggregateFilter<number>${Object.entries(filters)
+    .map(
+      ([field, fieldFilters]) =>
+        `\n  ${field}?: {\n${indent(fieldFilters.join('\n'), tab * 2)}\n  }`,
+    )
+    .join('')}
+}`
+  }
+}
+
 export class ModelDelegate implements Generatable {
   constructor(
     protected readonly outputType: OutputType,
@@ -937,7 +1396,11 @@ export class ModelDelegate implements Generatable {
 
     const actions = Object.entries(mapping).filter(
       ([key, value]) =>
-        key !== 'model' && key !== 'plural' && key !== 'aggregate' && value,
+        key !== 'model' &&
+        key !== 'plural' &&
+        key !== 'aggregate' &&
+        key !== 'groupBy' &&
+        value,
     )
 
     // TODO: The following code needs to be split up and is a mess
@@ -945,15 +1408,19 @@ export class ModelDelegate implements Generatable {
 export interface ${name}Delegate {
 ${indent(
   actions
-    .map(
-      ([actionName]: [any, any]): string =>
-        `${getMethodJSDoc(actionName, mapping, model)}
-${actionName}<T extends ${getModelArgName(name, actionName)}>(
+    .map(([actionName]: [any, any]): string => {
+      // only queries can be cached
+      const argsType = isQueryAction(actionName, 'query')
+        ? `${getModelArgName(name, actionName)} & CacheArgs & RequestArgs`
+        : `${getModelArgName(name, actionName)} & RequestArgs`
+
+      return `${getMethodJSDoc(actionName, mapping, model)}
+${actionName}<T extends ${argsType}>(
   args${
     actionName === DMMF.ModelAction.findMany ? '?' : ''
-  }: Subset<T, ${getModelArgName(name, actionName)}>
-): ${getSelectReturnType({ name, actionName, projection: Projection.select })}`,
-    )
+  }: Subset<T, ${argsType}>
+): ${getSelectReturnType({ name, actionName, projection: Projection.select })}`
+    })
     .join('\n'),
   tab,
 )}
@@ -963,7 +1430,83 @@ ${actionName}<T extends ${getModelArgName(name, actionName)}>(
   count(args?: Omit<${getModelArgName(
     name,
     DMMF.ModelAction.findMany,
-  )}, 'select' | 'include'>): Promise<number>
+  )}, 'select' | 'include'> & RequestArgs): Promise<number>
+  /**
+   * Aggregate ${name}s.
+   * @example
+   * \`\`\`
+   * // Count ${name}s and get the average of a numeric field
+   * const aggregations = await prisma.${lowerCase(name)}.aggregate({
+   *   count: true,
+   *   avg: { ... }
+   * })
+   * \`\`\`
+   */
+  aggregate<T extends ${getAggregateArgsName(
+    name,
+  )} & RequestArgs>(args: Subset<T, ${getAggregateArgsName(
+      name,
+    )} & RequestArgs>): Promise<${getAggregateGetName(name)}<T>>
+  /**
+   * Iterate over all ${capitalize(mapping.plural)} matching the args.
+   * The records are requested page by page, so only one page is held in memory.
+   * @example
+   * \`\`\`
+   * for await (const ${lowerCase(name)} of prisma.${lowerCase(
+      name,
+    )}.iterate()) {
+   *   console.log(${lowerCase(name)})
+   * }
+   * \`\`\`
+   */
+  iterate<T extends ${getModelArgName(
+    name,
+    DMMF.ModelAction.findMany,
+  )} & RequestArgs>(
+    args?: Subset<T, ${getModelArgName(
+      name,
+      DMMF.ModelAction.findMany,
+    )} & RequestArgs>,
+    options?: IterateOptions
+  ): CheckSelect<T, AsyncIterableIterator<${name}>, AsyncIterableIterator<${getPayloadName(
+      name,
+    )}<T>>>
+  /**
+   * Same as \`iterate\`, but returns a readable stream in object mode.
+   * @example
+   * \`\`\`
+   * prisma.${lowerCase(name)}.findManyStream().on('data', (${lowerCase(
+      name,
+    )}) => console.log(${lowerCase(name)}))
+   * \`\`\`
+   */
+  findManyStream<T extends ${getModelArgName(
+    name,
+    DMMF.ModelAction.findMany,
+  )} & RequestArgs>(
+    args?: Subset<T, ${getModelArgName(
+      name,
+      DMMF.ModelAction.findMany,
+    )} & RequestArgs>,
+    options?: IterateOptions
+  ): Readable
+  /**
+   * Group ${name}s by one or more fields.
+   * If the query engine can't group records, all matching ${name}s are loaded and grouped in the client.
+   * @example
+   * \`\`\`
+   * // Count the ${name}s per group
+   * const groups = await prisma.${lowerCase(name)}.groupBy({
+   *   by: ['${model.fields.find((f) => f.kind !== 'object')?.name}'],
+   *   count: true
+   * })
+   * \`\`\`
+   */
+  groupBy<T extends ${getGroupByArgsName(name)} & RequestArgs>(
+    args: Subset<T, ${getGroupByArgsName(
+      name,
+    )} & RequestArgs> & ${getGroupByHavingName(name)}<T>
+  ): Promise<${getGroupByPayloadName(name)}<T>>
 }
 
 export declare class ${name}Client<T> implements Promise<T> {
@@ -984,7 +1527,8 @@ export declare class ${name}Client<T> implements Promise<T> {
   readonly [Symbol.toStringTag]: 'PrismaClientPromise';
 ${indent(
   fields
-    .filter((f) => f.outputType.kind === 'object')
+    // virtual fields are no relations, so there's no fluent api for them
+    .filter((f) => f.outputType.kind === 'object' && !f.isVirtual)
     .map((f) => {
       const fieldTypeName = (f.outputType.type as DMMF.OutputType).name
       return `
@@ -73,7 +73,7 @@ export async function buildClient({
   engineVersion,
   clientVersion,
 }: GenerateClientOptions): Promise<BuildClientResult> {
-  const document = getPrismaClientDMMF(dmmf)
+  const document = getPrismaClientDMMF(dmmf, datasources[0]?.connectorType)
 
   const client = new TSClient({
     document,
@@ -433,6 +433,25 @@ export declare class PrismaClientInitializationError extends Error {
 export declare class PrismaClientValidationError extends Error {
     constructor(message: string);
 }
+
+export declare class PrismaClientTimeoutError extends Error {
+    timeout: number;
+    constructor(message: string, timeout: number);
+}
+
+export declare class AbortError extends Error {
+    constructor(message?: string);
+}
+
+export declare class Decimal {
+    constructor(value: Decimal | string | number | bigint);
+    static isDecimal(value: any): value is Decimal;
+    static isValid(value: string | number): boolean;
+    equals(other: Decimal | string | number | bigint): boolean;
+    toNumber(): number;
+    toString(): string;
+    toJSON(): string;
+}
 `
 
 async function fileSize(name: string): Promise<number | null> {
@@ -509,6 +528,9 @@ function validateDmmfAgainstDenylists(prismaClientDmmf): Error[] | null {
       'PrismaClientUnknownRequestError',
       'PrismaClientInitializationError',
       'PrismaClientRustPanicError',
+      'PrismaClientTimeoutError',
+      'AbortError',
+      'Decimal',
       'PrismaVersion',
       // JavaScript keywords
       'await',
@@ -6,11 +6,13 @@ import {
 import { DMMF as PrismaClientDMMF } from '../runtime/dmmf-types'
 import { externalToInternalDmmf } from '../runtime/externalToInternalDmmf'
 import { transformDmmf } from '../runtime/transformDmmf'
+import { ConnectorType } from '../runtime/utils/printDatasources'
 
 export function getPrismaClientDMMF(
   dmmf: DMMF.Document,
+  connectorType?: ConnectorType,
 ): PrismaClientDMMF.Document {
-  return transformDmmf(externalToInternalDmmf(dmmf))
+  return transformDmmf(externalToInternalDmmf(dmmf), connectorType)
 }
 
 // Mostly used for tests
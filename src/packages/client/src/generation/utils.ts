@@ -28,6 +28,45 @@ export function getIncludeName(modelName: string): string {
   return `${modelName}Include`
 }
 
+export function getAggregateName(modelName: string): string {
+  return `Aggregate${modelName}`
+}
+
+export function getAggregateArgsName(modelName: string): string {
+  return `Aggregate${modelName}Args`
+}
+
+export function getAggregateGetName(modelName: string): string {
+  return `Get${modelName}AggregateType`
+}
+
+export function getAggregateInputName(
+  modelName: string,
+  aggregation: string,
+): string {
+  return `${modelName}${capitalize(aggregation)}AggregateInputType`
+}
+
+export function getGroupByArgsName(modelName: string): string {
+  return `${modelName}GroupByArgs`
+}
+
+export function getGroupByHavingName(modelName: string): string {
+  return `${modelName}GroupByHaving`
+}
+
+export function getGroupByHavingAggregatesName(modelName: string): string {
+  return `${modelName}GroupByHavingAggregates`
+}
+
+export function getGroupByPayloadName(modelName: string): string {
+  return `Get${modelName}GroupByPayload`
+}
+
+export function getScalarFieldEnumName(modelName: string): string {
+  return `${modelName}ScalarFieldEnum`
+}
+
 export function getDefaultName(modelName: string): string {
   return `${modelName}Default`
 }
@@ -1,3 +1,5 @@
+import { AbortError, AbortSignalLike } from '@prisma/engine-core'
+
 interface Job {
   resolve: (data: any) => void
   reject: (data: any) => void
@@ -10,7 +12,7 @@ export type DataloaderOptions<T> = {
   batchBy: (request: T) => string | null
 }
 
-export class Dataloader<T = any> {
+export class Dataloader<T extends { signal?: AbortSignalLike } = any> {
   batches: { [key: string]: Job[] }
   private tickActive: boolean = false
   constructor(private options: DataloaderOptions<T>) {
@@ -34,12 +36,54 @@ export class Dataloader<T = any> {
       }
     }
 
+    const batch = this.batches[hash]
+    const { signal } = request
+    if (!signal) {
+      return new Promise((resolve, reject) => {
+        batch.push({
+          request,
+          resolve,
+          reject,
+        })
+      })
+    }
+
     return new Promise((resolve, reject) => {
-      this.batches[hash].push({
+      if (signal.aborted) {
+        return reject(new AbortError())
+      }
+
+      let aborted = false
+      const onAbort = () => {
+        aborted = true
+        // if the batch hasn't been dispatched yet, the request is left out.
+        // a dispatched batch maps the results by index, so it needs all of its
+        // jobs and only this caller stops waiting for the result
+        if (this.batches[hash] === batch) {
+          batch.splice(batch.indexOf(job), 1)
+        }
+        reject(new AbortError())
+      }
+      const job: Job = {
         request,
-        resolve,
-        reject,
-      })
+        resolve: data => {
+          if (aborted) {
+            return
+          }
+          signal.removeEventListener('abort', onAbort)
+          resolve(data)
+        },
+        reject: e => {
+          if (aborted) {
+            return
+          }
+          signal.removeEventListener('abort', onAbort)
+          reject(e)
+        },
+      }
+
+      signal.addEventListener('abort', onAbort)
+      batch.push(job)
     })
   }
 
@@ -48,6 +92,11 @@ export class Dataloader<T = any> {
       const batch = this.batches[key]
       delete this.batches[key]
 
+      // all requests of the batch have been aborted
+      if (batch.length === 0) {
+        continue
+      }
+
       // only batch if necessary
       // this might occur, if there's e.g. only 1 findOne in the batch
       if (batch.length === 1) {
@@ -0,0 +1,126 @@
+import { Document } from './query'
+
+interface Job {
+  document: Document
+  resolve: (data: any) => void
+  reject: (data: any) => void
+}
+
+/**
+ * Identifies a request of `prisma.transaction([...])`
+ */
+export interface TransactionRequest {
+  batch: TransactionBatch
+  index: number
+}
+
+/**
+ * Collects the requests of `prisma.transaction([...])` and sends them as one batch.
+ * Middlewares may await something before they call `next`, so unlike in the
+ * `Dataloader` the requests don't necessarily arrive in the same tick.
+ * The batch is sent once every request either arrived or settled without
+ * reaching the engine, e.g. because a middleware didn't call `next`.
+ */
+export class TransactionBatch {
+  // undefined: pending, null: settled without reaching the engine
+  private jobs: Array<Job | null | undefined>
+  private sent = false
+  private error?: Error
+  constructor(
+    size: number,
+    private readonly send: (documents: Document[]) => Promise<any[]>,
+  ) {
+    this.jobs = new Array(size).fill(undefined)
+  }
+  /**
+   * Adds the request at `index` to the batch and resolves with its result
+   */
+  add(index: number, document: Document): Promise<any> {
+    if (this.error) {
+      return Promise.reject(this.error)
+    }
+
+    if (this.sent || this.jobs[index] !== undefined) {
+      return Promise.reject(
+        new Error(
+          `Request ${index} of the transaction has already been sent. Please make sure your middlewares call \`next\` only once.`,
+        ),
+      )
+    }
+
+    return new Promise((resolve, reject) => {
+      this.jobs[index] = { document, resolve, reject }
+      this.dispatch()
+    })
+  }
+  /**
+   * Returns the result of the request at `index`. If the request fails
+   * before it's added, none of the requests of the transaction are sent.
+   */
+  track<T>(index: number, promise: Promise<T>): Promise<T> {
+    return promise.then(
+      (result) => {
+        this.settle(index)
+        return result
+      },
+      (e) => {
+        this.settle(index, e)
+        throw e
+      },
+    )
+  }
+  private settle(index: number, error?: Error) {
+    if (this.jobs[index] !== undefined) {
+      return
+    }
+
+    this.jobs[index] = null
+    if (error) {
+      this.abort(error)
+    } else {
+      this.dispatch()
+    }
+  }
+  private abort(error: Error) {
+    if (this.sent || this.error) {
+      return
+    }
+
+    this.error = error
+    for (const job of this.jobs) {
+      job?.reject(error)
+    }
+  }
+  private dispatch() {
+    if (this.sent || this.error || this.jobs.includes(undefined)) {
+      return
+    }
+
+    this.sent = true
+    const jobs = this.jobs.filter((job): job is Job => Boolean(job))
+    if (jobs.length === 0) {
+      return
+    }
+
+    this.send(jobs.map((job) => job.document))
+      .then((results) => {
+        if (results instanceof Error) {
+          throw results
+        }
+
+        jobs.forEach((job, index) => {
+          const result = results[index]
+          if (result instanceof Error) {
+            job.reject(result)
+          } else {
+            job.resolve(result)
+          }
+        })
+      })
+      .catch((e) => {
+        for (const job of jobs) {
+          job.reject(e)
+        }
+      })
+  }
+}
@@ -0,0 +1,237 @@
+import { AbortSignalLike } from '@prisma/engine-core'
+import { DMMFClass } from './dmmf'
+import { DMMF } from './dmmf-types'
+import { Arg, Args, Document, Field, getFilterArgName } from './query'
+import { flatMap } from './utils/flatMap'
+import { omit } from './utils/omit'
+import { ConnectorType } from './utils/printDatasources'
+
+/**
+ * Describes a `findMany`, which is only filtered by one relation scalar,
+ * like `prisma.post.findMany({ where: { authorId: 1 } })`.
+ * These requests can be merged into one `findMany` with an `in` filter.
+ */
+export interface FindManyBatchInfo {
+  rootField: string
+  field: string
+  value: string | number
+  key: string
+}
+
+// args, which don't change how the rows of one caller relate to each other
+const allowedArgs = ['where', 'orderBy']
+
+// connectors, which compare strings exactly by default
+const exactStringConnectors: ConnectorType[] = ['postgresql', 'sqlite']
+
+export function getFindManyBatchInfo(
+  document: Document,
+  dmmf?: DMMFClass,
+  connectorType?: ConnectorType,
+): FindManyBatchInfo | null {
+  const rootField = document.children[0]
+  if (
+    !dmmf ||
+    document.type !== 'query' ||
+    !rootField.name.startsWith('findMany') ||
+    !rootField.args ||
+    !rootField.schemaField
+  ) {
+    return null
+  }
+
+  const args = rootField.args.args
+  const whereArg = args.find((a) => a.key === 'where')
+  if (!whereArg || args.some((a) => !allowedArgs.includes(a.key))) {
+    return null
+  }
+
+  if (!(whereArg.value instanceof Args) || whereArg.value.args.length !== 1) {
+    return null
+  }
+
+  const filter = whereArg.value.args[0]
+  if (typeof filter.value !== 'string' && typeof filter.value !== 'number') {
+    return null
+  }
+
+  const modelName = (rootField.schemaField.outputType.type as DMMF.OutputType)
+    .name
+  const model = dmmf.modelMap[modelName]
+  if (!model || !getRelationScalars(model).includes(filter.key)) {
+    return null
+  }
+
+  const field = model.fields.find((f) => f.name === filter.key)
+  if (!field || !comparesExactly(field.type, connectorType)) {
+    return null
+  }
+
+  const orderBy = args.find((a) => a.key === 'orderBy')
+  const selectionSet = rootField.children?.join(',')
+
+  return {
+    rootField: rootField.name,
+    field: filter.key,
+    value: filter.value,
+    key: `${rootField.name}|${filter.key}|${orderBy ?? ''}|${selectionSet}`,
+  }
+}
+
+/**
+ * The rows of the merged request are assigned to the requests with \`===\`.
+ * That's only correct, if the database compares the values the same way.
+ * For example MySQL compares strings case-insensitively by default.
+ */
+function comparesExactly(type: string, connectorType?: ConnectorType): boolean {
+  if (type === 'Int') {
+    return true
+  }
+
+  return (
+    type === 'String' &&
+    Boolean(connectorType) &&
+    exactStringConnectors.includes(connectorType!)
+  )
+}
+
+function getRelationScalars(model: DMMF.Model): string[] {
+  return flatMap(
+    model.fields.filter((f) => f.kind === 'object'),
+    (f) => f.relationFromFields ?? [],
+  )
+}
+
+/**
+ * Merges documents with the same `FindManyBatchInfo.key` into one document,
+ * which filters by all requested values with an `in` filter.
+ * The filtered field is selected, so that the result can be split again.
+ */
+export function mergeFindManyDocuments(
+  documents: Document[],
+  { field }: FindManyBatchInfo,
+): { document: Document; addedField: boolean } {
+  const rootField = documents[0].children[0]
+  const values = [
+    ...new Set(
+      documents.map(
+        (d) =>
+          (d.children[0].args!.args.find((a) => a.key === 'where')!
+            .value as Args).args[0].value,
+      ),
+    ),
+  ]
+
+  const args = rootField.args!.args.map((arg) => {
+    if (arg.key !== 'where') {
+      return arg
+    }
+
+    // the where arg is already transformed, so the filter needs the same shape
+    return new Arg({
+      ...arg,
+      value: new Args([
+        new Arg({
+          key: getFilterArgName(field, 'in'),
+          value: values,
+        }),
+      ]),
+    })
+  })
+
+  const children = rootField.children ?? []
+  const addedField = !children.some((child) => child.name === field)
+  const outputType = rootField.schemaField!.outputType.type as DMMF.OutputType
+
+  const document = new Document('query', [
+    new Field({
+      name: rootField.name,
+      args: new Args(args),
+      children: addedField
+        ? [
+            ...children,
+            new Field({
+              name: field,
+              schemaField: outputType.fields.find((f) => f.name === field),
+            }),
+          ]
+        : children,
+      schemaField: rootField.schemaField,
+    }),
+  ])
+
+  return { document, addedField }
+}
+
+/**
+ * Splits the response of a merged `findMany` into one response per request
+ */
+export function splitFindManyResponse(
+  response: { data: any; elapsed: number },
+  infos: FindManyBatchInfo[],
+  addedField: boolean,
+): Array<{ data: any; elapsed: number }> {
+  const { rootField, field } = infos[0]
+  const rows: any[] = response.data.data[rootField]
+
+  return infos.map((info) => ({
+    data: {
+      data: {
+        [rootField]: rows
+          .filter((row) => row[field] === info.value)
+          .map((row) => (addedField ? omit(row, field) : row)),
+      },
+    },
+    elapsed: response.elapsed,
+  }))
+}
+
+/**
+ * Aborts the merged request, once the requests of all callers are aborted.
+ * If one of the callers can't abort, the merged request can't be aborted either.
+ */
+export class BatchAbortSignal implements AbortSignalLike {
+  aborted = false
+  private listeners = new Set<() => void>()
+  private remaining: number
+  private readonly onAbort = () => {
+    this.remaining--
+    if (this.remaining === 0) {
+      this.aborted = true
+      this.listeners.forEach((listener) => listener())
+    }
+  }
+  private constructor(private readonly signals: AbortSignalLike[]) {
+    this.remaining = signals.length
+    for (const signal of signals) {
+      if (signal.aborted) {
+        this.onAbort()
+      } else {
+        signal.addEventListener('abort', this.onAbort)
+      }
+    }
+  }
+  static from(
+    signals: Array<AbortSignalLike | undefined>,
+  ): BatchAbortSignal | undefined {
+    if (signals.length === 0 || signals.some((signal) => !signal)) {
+      return undefined
+    }
+
+    return new BatchAbortSignal(signals as AbortSignalLike[])
+  }
+  addEventListener(type: 'abort', listener: () => void): void {
+    this.listeners.add(listener)
+  }
+  removeEventListener(type: 'abort', listener: () => void): void {
+    this.listeners.delete(listener)
+  }
+  /**
+   * Stops listening to the signals of the callers
+   */
+  dispose(): void {
+    for (const signal of this.signals) {
+      signal.removeEventListener('abort', this.onAbort)
+    }
+  }
+}
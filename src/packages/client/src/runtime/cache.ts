@@ -0,0 +1,183 @@
+import { DMMFClass } from './dmmf'
+
+export interface CacheOptions {
+  /**
+   * Time in milliseconds the result is cached for
+   */
+  ttl: number
+}
+
+/**
+ * Storage for cached query results. Values are the serialized engine responses.
+ */
+export interface CacheAdapter {
+  get(key: string): Promise<string | undefined> | string | undefined
+  set(key: string, value: string, ttl: number): Promise<void> | void
+  delete(key: string): Promise<void> | void
+}
+
+interface LRUCacheEntry {
+  value: string
+  expiresAt: number
+}
+
+/**
+ * In-memory cache, which evicts the least recently used entry
+ * when it holds more than `maxEntries` entries
+ */
+export class LRUCache implements CacheAdapter {
+  private entries = new Map<string, LRUCacheEntry>()
+  constructor(
+    private readonly maxEntries = 1000,
+    private readonly onEvict?: (key: string) => void,
+  ) {}
+  get(key: string): string | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+
+    this.entries.delete(key)
+    if (entry.expiresAt <= Date.now()) {
+      return undefined
+    }
+
+    // a Map iterates in insertion order, so re-inserting marks it as recently used
+    this.entries.set(key, entry)
+    return entry.value
+  }
+  set(key: string, value: string, ttl: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl })
+
+    if (this.entries.size > this.maxEntries) {
+      const evictedKey = this.entries.keys().next().value
+      this.entries.delete(evictedKey)
+      this.onEvict?.(evictedKey)
+    }
+  }
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+}
+
+/**
+ * Caches query results keyed by the query string and keeps track of
+ * which model they belong to, so they can be invalidated on mutations
+ */
+export class QueryCache {
+  // the expiry of the cached queries of each model
+  private keysByModel = new Map<string, Map<string, number>>()
+  // the models written in interactive transactions, which aren't committed yet
+  private pendingInvalidations = new Map<string, Set<string>>()
+  private readonly adapter: CacheAdapter
+  constructor(private readonly dmmf: DMMFClass, adapter?: CacheAdapter) {
+    this.adapter = adapter ?? new LRUCache(undefined, (key) => this.forget(key))
+  }
+  async get(model: string, query: string): Promise<string | undefined> {
+    const value = await this.adapter.get(query)
+    if (value === undefined) {
+      this.keysByModel.get(model)?.delete(query)
+    }
+
+    return value
+  }
+  async set(
+    model: string,
+    query: string,
+    value: string,
+    ttl: number,
+  ): Promise<void> {
+    await this.adapter.set(query, value, ttl)
+
+    let keys = this.keysByModel.get(model)
+    if (!keys) {
+      keys = new Map()
+      this.keysByModel.set(model, keys)
+    }
+
+    // adapters expire entries on their own, so expired keys are dropped here
+    const now = Date.now()
+    for (const [key, expiresAt] of keys) {
+      if (expiresAt <= now) {
+        keys.delete(key)
+      }
+    }
+    keys.set(query, now + ttl)
+  }
+  /**
+   * Removes the cached results of the model and of all models related to it,
+   * as nested writes and includes make them depend on each other.
+   * Raw queries can change any table, so they clear the whole cache.
+   */
+  async invalidate(model: string): Promise<void> {
+    if (model === 'raw') {
+      return this.clear()
+    }
+
+    await Promise.all(
+      this.getRelatedModels(model).map((m) => this.invalidateModel(m)),
+    )
+  }
+  /**
+   * Invalidates the model once the interactive transaction is committed.
+   * Before that, other requests don't see the writes of the transaction.
+   */
+  invalidateOnCommit(transactionId: string, model: string): void {
+    let models = this.pendingInvalidations.get(transactionId)
+    if (!models) {
+      models = new Set()
+      this.pendingInvalidations.set(transactionId, models)
+    }
+    models.add(model)
+  }
+  async commit(transactionId: string): Promise<void> {
+    const models = this.pendingInvalidations.get(transactionId) ?? []
+    this.pendingInvalidations.delete(transactionId)
+    await Promise.all([...models].map((model) => this.invalidate(model)))
+  }
+  rollback(transactionId: string): void {
+    this.pendingInvalidations.delete(transactionId)
+  }
+  async clear(): Promise<void> {
+    await Promise.all(
+      [...this.keysByModel.keys()].map((m) => this.invalidateModel(m)),
+    )
+  }
+  private async invalidateModel(model: string): Promise<void> {
+    const keys = this.keysByModel.get(model)
+    if (!keys) {
+      return
+    }
+
+    this.keysByModel.delete(model)
+    await Promise.all([...keys.keys()].map((key) => this.adapter.delete(key)))
+  }
+  private forget(key: string): void {
+    for (const keys of this.keysByModel.values()) {
+      keys.delete(key)
+    }
+  }
+  /**
+   * Returns the model and all models reachable through its relations,
+   * as a query can include relations of relations
+   */
+  private getRelatedModels(model: string): string[] {
+    const models = new Set([model])
+
+    for (const name of models) {
+      const dmmfModel = this.dmmf.modelMap[name]
+      if (!dmmfModel) {
+        continue
+      }
+
+      for (const field of dmmfModel.fields) {
+        if (field.kind === 'object') {
+          models.add(field.type)
+        }
+      }
+    }
+
+    return [...models]
+  }
+}
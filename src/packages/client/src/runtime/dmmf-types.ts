@@ -39,6 +39,7 @@ export namespace DMMF {
     type: string
     dbNames: string[] | null
     isGenerated: boolean
+    relationFromFields?: any[]
     relationToFields?: any[]
     relationOnDelete?: string
     relationName?: string
@@ -87,6 +88,7 @@ export namespace DMMF {
     name: string
     inputType: SchemaArgInputType[]
     isRelationFilter?: boolean
+    isRelationCountFilter?: boolean // this is needed to transform it back
     nullEqualsUndefined?: boolean
     comment?: string
   }
@@ -106,6 +108,7 @@ export namespace DMMF {
       kind: FieldKind
     }
     args: SchemaArg[]
+    isVirtual?: boolean // the engine doesn't know this field, so the client resolves it
   }
 
   export interface InputType {
@@ -129,6 +132,7 @@ export namespace DMMF {
     delete?: string | null
     deleteMany?: string | null
     aggregate?: string | null
+    groupBy?: string | null
   }
 
   export enum ModelAction {
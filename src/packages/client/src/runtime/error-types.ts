@@ -33,6 +33,13 @@ export interface InvalidFieldNameError {
   isInclude?: boolean
   isIncludeScalar?: boolean
   outputType: DMMF.OutputType
+  /**
+   * Set if a field of the model can't be aggregated, e.g. `avg: { name: true }`
+   */
+  aggregation?: {
+    name: string
+    fieldType: string
+  }
 }
 
 export interface EmptySelectError {
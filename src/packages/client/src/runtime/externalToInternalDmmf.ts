@@ -62,6 +62,7 @@ function fixOrderByEnum(arg: ExternalDMMF.SchemaArg): ExternalDMMF.SchemaArg {
     return {
       name: arg.name,
       inputType: {
+        // only engines, which can order by multiple fields, accept a list of sort specs
         isList: arg.inputType.isList,
         isRequired: arg.inputType.isRequired,
         isNullable: arg.inputType.isNullable,
@@ -105,5 +106,6 @@ function getMappings(
       updateMany: mapping.updateMany,
       upsert: mapping.upsertOne || mapping.upsertSingle || mapping.upsert,
       aggregate: mapping.aggregate,
+      groupBy: mapping.groupBy,
     }))
 }
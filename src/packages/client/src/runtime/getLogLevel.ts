@@ -1,9 +1,12 @@
-type LogLevel = 'info' | 'query' | 'warn'
+type LogLevel = 'info' | 'query' | 'warn' | 'error'
 type LogDefinition = {
   level: LogLevel
   emit: 'stdout' | 'event'
 }
 
+// the most verbose level wins, as the engine logs everything above its level
+const levelPrecedence: LogLevel[] = ['info', 'warn', 'error']
+
 export function getLogLevel(
   log: LogLevel | Array<LogLevel | LogDefinition>,
 ): LogLevel | undefined {
@@ -18,10 +21,8 @@ export function getLogLevel(
     if (!acc) {
       return currentLevel
     }
-    if (curr === 'info' || acc === 'info') {
-      // info has precedence
-      return 'info'
-    }
-    return currentLevel
+    return levelPrecedence.indexOf(currentLevel) < levelPrecedence.indexOf(acc)
+      ? currentLevel
+      : acc
   }, undefined)
 }
@@ -6,7 +6,9 @@ import {
   PrismaClientUnknownRequestError,
   PrismaClientInitializationError,
   PrismaClientRustPanicError,
+  PrismaClientTimeoutError,
 } from '.'
+import { AbortSignalLike } from '@prisma/engine-core'
 import {
   NodeEngine,
   EngineConfig,
@@ -18,6 +20,7 @@ import {
   unpack,
   transformDocument,
   Args,
+  getExactNumberPaths,
 } from './query'
 import Debug from '@prisma/debug'
 const debug = Debug('prisma-client')
@@ -28,7 +31,8 @@ import { parse as parseDotEnv } from 'dotenv'
 import { GeneratorConfig } from '@prisma/generator-helper/dist/types'
 import { getLogLevel } from './getLogLevel'
 import { mergeBy } from './mergeBy'
-import { lowerCase } from './utils/common'
+import { flatMap } from './utils/flatMap'
+import { Dictionary, lowerCase } from './utils/common'
 import { deepSet } from './utils/deep-set'
 import { Dataloader } from './Dataloader'
 import { printStack } from './utils/printStack'
@@ -36,6 +40,23 @@ import stripAnsi from 'strip-ansi'
 import { printJsonWithErrors } from './utils/printJsonErrors'
 import { InternalDatasource } from './utils/printDatasources'
 import { omit } from './utils/omit'
+import { iterate, iterateStream, IterateOptions } from './iterate'
+import { groupBy } from './groupBy'
+import { QueryCache, CacheAdapter, CacheOptions } from './cache'
+import {
+  BatchAbortSignal,
+  FindManyBatchInfo,
+  getFindManyBatchInfo,
+  mergeFindManyDocuments,
+  splitFindManyResponse,
+} from './batchFindMany'
+import {
+  extractRelationCounts,
+  getRelationCountRecords,
+  makeRelationCountDocument,
+  RelationCountInfo,
+} from './relationCounts'
+import { TransactionBatch, TransactionRequest } from './TransactionBatch'
 
 export type ErrorFormat = 'pretty' | 'colorless' | 'minimal'
 
@@ -56,19 +77,69 @@ export interface PrismaClientOptions {
    * @example
    * \`\`\`
    * // Defaults to stdout
-   * log: ['query', 'info', 'warn']
+   * log: ['query', 'info', 'warn', 'error']
    *
    * // Emit as events
    * log: [
    *  { emit: 'stdout', level: 'query' },
    *  { emit: 'stdout', level: 'info' },
-   *  { emit: 'stdout', level: 'warn' }
+   *  { emit: 'stdout', level: 'warn' },
+   *  { emit: 'event', level: 'error' }
    * ]
    * \`\`\`
    * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/logging#the-log-option).
    */
   log?: Array<LogLevel | LogDefinition>
 
+  /**
+   * Receives the logs of the levels that would otherwise be printed to stdout.
+   * Compatible with loggers like pino or bunyan.
+   * @example
+   * \`\`\`
+   * const prisma = new PrismaClient({
+   *   log: ['query', 'info', 'warn', 'error'],
+   *   logger: pino(),
+   * })
+   * \`\`\`
+   */
+  logger?: Logger
+
+  /**
+   * Caches the results of queries. Cached results of a model are invalidated
+   * when a mutation of the model or of a related model goes through the client.
+   * @example
+   * \`\`\`
+   * // Cache all queries for 1 second
+   * cache: { ttl: 1000 }
+   *
+   * // Only cache specific queries
+   * await prisma.user.findMany({ cache: { ttl: 1000 } })
+   * \`\`\`
+   */
+  cache?: {
+    /**
+     * Time in milliseconds results are cached for by default
+     */
+    ttl?: number
+    /**
+     * Defaults to an in-memory LRU cache
+     */
+    adapter?: CacheAdapter
+  }
+
+  /**
+   * Time in milliseconds after which a query is aborted and rejects with a
+   * \`PrismaClientTimeoutError\`. Single queries can also be cancelled with an
+   * \`AbortSignal\`.
+   * @example
+   * \`\`\`
+   * const controller = new AbortController()
+   * const users = prisma.user.findMany({ signal: controller.signal })
+   * controller.abort() // rejects with an AbortError
+   * \`\`\`
+   */
+  queryTimeout?: number
+
   /**
    * You probably don't want to use this. \`__internal\` is used by internal tooling.
    */
@@ -93,8 +164,40 @@ export type Hooks = {
   }) => any
 }
 
+export type Action =
+  | keyof typeof DMMF.ModelAction
+  | 'count'
+  | 'aggregate'
+  | 'groupBy'
+
+export type MiddlewareParams = {
+  model: string
+  action: Action
+  args: any
+  dataPath: string[]
+  runInTransaction: boolean
+}
+
+export type Middleware<T = any> = (
+  params: MiddlewareParams,
+  next: (params: MiddlewareParams) => Promise<T>,
+) => Promise<T>
+
 /* Types for Logging */
-export type LogLevel = 'info' | 'query' | 'warn'
+export type LogFunction = (record: Record<string, any>, message: string) => any
+
+/**
+ * `query` logs are passed to `debug`, all other levels to the method of the same name
+ * The methods are called like the ones of pino, with the record and the message
+ */
+export type Logger = {
+  debug?: LogFunction
+  info?: LogFunction
+  warn?: LogFunction
+  error?: LogFunction
+}
+
+export type LogLevel = 'info' | 'query' | 'warn' | 'error'
 export type LogDefinition = {
   level: LogLevel
   emit: 'stdout' | 'event'
@@ -107,10 +210,9 @@ export type GetLogType<
     ? T['level']
     : never
   : never
-export type GetEvents<T extends Array<LogLevel | LogDefinition>> =
-  | GetLogType<T[0]>
-  | GetLogType<T[1]>
-  | GetLogType<T[2]>
+export type GetEvents<T extends Array<LogLevel | LogDefinition>> = GetLogType<
+  T[number]
+>
 
 export type QueryEvent = {
   timestamp: Date
@@ -125,8 +227,49 @@ export type LogEvent = {
   message: string
   target: string
 }
+
+export type ErrorEvent = LogEvent & {
+  /**
+   * The error code of a known request error, e.g. `P2002`
+   */
+  code?: string
+  /**
+   * Whether the query engine panicked
+   */
+  isPanic: boolean
+  /**
+   * The error that has been thrown to the caller, if the error happened during a request
+   */
+  error?: Error
+}
 /* End Types for Logging */
 
+interface ModelClientParams {
+  operation: 'query' | 'mutation'
+  actionName: string
+  rootField: string
+  args?: any
+  dataPath?: string[]
+  isList?: boolean
+  interactiveTransactionId?: string
+}
+
+/**
+ * The lazy promise returned by the model delegates. The request is only sent,
+ * when it's awaited or passed to `prisma.transaction()`.
+ */
+interface ModelClientPromise extends PromiseLike<any> {
+  catch(onrejected?: (reason: any) => any): Promise<any>
+  finally(onfinally?: () => void): Promise<any>
+  requestTransaction(batch: TransactionBatch, index: number): Promise<any>
+  // whether the request has already been sent outside of a transaction
+  _isRequested(): boolean
+  // fluent api for the relation fields, e.g. `prisma.user.findOne().posts()`
+  [relationField: string]: any
+}
+
+type ModelClient = (params: ModelClientParams) => ModelClientPromise
+
 export interface GetPrismaClientOptions {
   document: DMMF.Document
   generator?: GeneratorConfig
@@ -152,6 +295,12 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
     private errorFormat: ErrorFormat
     private measurePerformance: boolean
     private hooks?: Hooks
+    private clients: Dictionary<ModelClient>
+    private middlewares: Middleware[] = []
+    private logger?: Logger
+    private cacheTtl?: number
+    private queryTimeout?: number
+    private logRequests = false
     constructor(optionsArg?: PrismaClientOptions) {
       const options: PrismaClientOptions = optionsArg ?? {}
       const internal = options.__internal ?? {}
@@ -237,7 +386,14 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
       debug({ engineConfig: sanitizedEngineConfig })
 
       this.engine = new NodeEngine(this.engineConfig)
-      this.fetcher = new PrismaClientFetcher(this, false, this.hooks)
+      this.cacheTtl = options.cache?.ttl
+      this.queryTimeout = options.queryTimeout
+      this.fetcher = new PrismaClientFetcher(
+        this,
+        false,
+        this.hooks,
+        () => new QueryCache(this.dmmf, options.cache?.adapter),
+      )
 
       if (options.log) {
         for (const log of options.log) {
@@ -247,7 +403,11 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
               : log.emit === 'stdout'
               ? log.level
               : null
-          if (level) {
+          if (level && options.logger) {
+            this.logger = options.logger
+            this.logRequests = this.logRequests || level === 'query'
+            this.on(level, (event) => this.writeToLogger(level, event))
+          } else if (level) {
             this.on(level, (event) => {
               const colorMap = {
                 query: 'blue',
@@ -281,7 +441,9 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
     on(eventType: any, callback: (event: any) => void) {
       this.engine.on(eventType, (event) => {
         const fields = event.fields
-        if (eventType === 'query') {
+        if (eventType === 'error') {
+          callback(getErrorEvent(event))
+        } else if (eventType === 'query') {
           callback({
             timestamp: event.timestamp,
             query: fields.query,
@@ -299,6 +461,66 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
         }
       })
     }
+    /**
+     * Resolves the `cache` arg of a request. `true` or no arg falls back
+     * to the `cache` option of the client, `false` bypasses the cache.
+     */
+    private getCacheOptions(
+      cache?: CacheOptions | boolean,
+    ): CacheOptions | undefined {
+      if (cache === false) {
+        return undefined
+      }
+
+      if (typeof cache === 'object') {
+        return cache
+      }
+
+      return this.cacheTtl ? { ttl: this.cacheTtl } : undefined
+    }
+    private writeToLogger(level: LogLevel, event: any) {
+      if (level === 'query') {
+        this.logger?.debug?.(
+          {
+            timestamp: event.timestamp,
+            query: event.query,
+            params: event.params,
+            duration: event.duration,
+            target: event.target,
+          },
+          event.query,
+        )
+      } else {
+        const { message, ...record } = event
+        this.logger?.[level]?.(record, message)
+      }
+    }
+    /**
+     * Logs the model, action and duration of a request,
+     * if queries are passed to the `logger`
+     */
+    logRequest({
+      model,
+      action,
+      duration,
+    }: {
+      model: string
+      action: string
+      duration: number
+    }) {
+      if (this.logRequests) {
+        this.logger?.debug?.(
+          {
+            timestamp: new Date(),
+            model,
+            action,
+            duration,
+            target: 'prisma:client',
+          },
+          `prisma.${lowerCase(model)}.${action}`,
+        )
+      }
+    }
     async connect() {
       if (this.disconnectionPromise) {
         await this.disconnectionPromise
@@ -401,8 +623,122 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
         clientMethod: 'raw',
       })
     }
+    /**
+     * Executes queries in a transaction. Either takes an array of Prisma Client
+     * promises, which are sent to the engine as one batch, or a function that
+     * receives a transaction client. In the latter case the transaction is
+     * committed when the returned promise resolves and rolled back if it rejects.
+     */
+    async transaction(input: any) {
+      if (typeof input === 'function') {
+        return this.interactiveTransaction(input)
+      }
+
+      if (Array.isArray(input)) {
+        return this.batchTransaction(input)
+      }
+
+      throw new Error(
+        `prisma.transaction() expects either an array of Prisma Client promises or a function.`,
+      )
+    }
+    private batchTransaction(promises: any[]) {
+      // check all elements first, so that no request is sent if one is invalid
+      const invalidIndex = promises.findIndex(
+        (p) =>
+          !p ||
+          typeof p.requestTransaction !== 'function' ||
+          typeof p._isRequested !== 'function',
+      )
+      if (invalidIndex !== -1) {
+        throw new Error(
+          `All elements of the array need to be Prisma Client promises, but the element at index ${invalidIndex} is not. Hint: Please make sure you are not awaiting the Prisma Client calls you intended to pass in the transaction.`,
+        )
+      }
+
+      const duplicateIndex = promises.findIndex(
+        (p, index) => promises.indexOf(p) !== index,
+      )
+      if (duplicateIndex !== -1) {
+        throw new Error(
+          `The Prisma Client promise at index ${duplicateIndex} of the array is passed to the transaction more than once. Please call the Prisma Client method again for every request of the transaction.`,
+        )
+      }
+
+      const requestedIndex = promises.findIndex((p) => p._isRequested())
+      if (requestedIndex !== -1) {
+        throw new Error(
+          `The Prisma Client promise at index ${requestedIndex} of the array has already been sent outside of the transaction, as it was awaited or its \`then\`, \`catch\` or \`finally\` was called. Please pass the Prisma Client calls to the transaction without using them before.`,
+        )
+      }
+
+      const batch = new TransactionBatch(promises.length, (documents) =>
+        this.fetcher.requestTransactionBatch(documents),
+      )
+
+      return Promise.all(
+        (promises as ModelClientPromise[]).map((p, index) =>
+          p.requestTransaction(batch, index),
+        ),
+      )
+    }
+    private async interactiveTransaction(callback: (tx: any) => Promise<any>) {
+      await this.connect()
+      const { id } = await this.engine.transaction('start')
+      debug(`Started transaction ${id}`)
+
+      let result: any
+      try {
+        result = await callback(this.getDelegates(id))
+      } catch (e) {
+        this.fetcher.cache?.rollback(id)
+        try {
+          await this.engine.transaction('rollback', id)
+          debug(`Rolled back transaction ${id}`)
+        } catch (rollbackError) {
+          debug(rollbackError)
+        }
+        throw e
+      }
+
+      try {
+        await this.engine.transaction('commit', id)
+        debug(`Committed transaction ${id}`)
+      } finally {
+        // if the commit failed, it's unknown whether the writes were applied
+        await this.fetcher.cache?.commit(id)
+      }
+
+      return result
+    }
+    /**
+     * Adds a middleware that is called for every request of the model delegates.
+     * Middlewares are executed in the order they have been added.
+     */
+    use(middleware: Middleware) {
+      this.middlewares.push(middleware)
+    }
+    private runMiddlewares(
+      params: MiddlewareParams,
+      executeRequest: (params: MiddlewareParams) => Promise<any>,
+      index = 0,
+    ): Promise<any> {
+      const middleware = this.middlewares[index]
+
+      try {
+        if (!middleware) {
+          return executeRequest(params)
+        }
+
+        return middleware(params, (nextParams) =>
+          this.runMiddlewares(nextParams, executeRequest, index + 1),
+        )
+      } catch (e) {
+        return Promise.reject(e)
+      }
+    }
     private bootstrapClient() {
-      const clients = this.dmmf.mappings.reduce((acc, mapping) => {
+      this.clients = this.dmmf.mappings.reduce((acc, mapping) => {
         const lowerCaseModel = lowerCase(mapping.model)
         const model = this.dmmf.modelMap[mapping.model]
 
@@ -410,99 +746,138 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
           throw new Error(`Invalid mapping ${mapping.model}, can't find model`)
         }
 
-        const prismaClient = ({
+        const prismaClient: ModelClient = ({
           operation,
           actionName,
           rootField,
           args,
-          dataPath,
-          isList,
+          dataPath = [],
+          isList = false,
+          interactiveTransactionId,
         }) => {
-          dataPath = dataPath ?? []
-          isList = isList ?? false
-
           const callsite =
             this.errorFormat !== 'minimal' ? new Error().stack : undefined
           const clientMethod = `${lowerCaseModel}.${actionName}`
+          const collectTimestamps = new CollectTimestamps('PrismaClient')
 
-          let document = makeDocument({
-            dmmf: this.dmmf,
-            rootField,
-            rootTypeName: operation,
-            select: args,
-          })
+          // `count`, `aggregate` and `groupBy` are sent as an aggregation, but
+          // middlewares receive the args as the user passed them
+          const getSelect = (args) => {
+            if (actionName === 'count') {
+              return args ? { select: { count: args } } : undefined
+            }
 
-          document.validate(
-            args,
-            false,
-            `${lowerCaseModel}.${actionName}`,
-            this.errorFormat,
-            callsite,
-          )
+            if (actionName === 'aggregate') {
+              return transformAggregateArgs(args)
+            }
 
-          document = transformDocument(document)
+            if (actionName === 'groupBy') {
+              return transformGroupByArgs(args)
+            }
 
-          const query = String(document)
-          debug(`Prisma Client call:`)
-          debug(
-            `prisma.${clientMethod}(${printJsonWithErrors(args, [], [], [])})`,
-          )
-          debug(`Generated request:`)
-          debug(query + '\n')
+            return args
+          }
 
-          let requestPromise: Promise<any>
+          const executeRequest = (
+            params: MiddlewareParams,
+            transaction?: TransactionRequest,
+          ) => {
+            const { cache, signal, args } = extractClientArgs(params.args)
+            const select = getSelect(args)
+
+            let document = makeDocument({
+              dmmf: this.dmmf,
+              rootField,
+              rootTypeName: operation,
+              select,
+            })
 
-          const collectTimestamps = new CollectTimestamps('PrismaClient')
+            document.validate(
+              select,
+              false,
+              clientMethod,
+              this.errorFormat,
+              callsite,
+            )
+
+            document = transformDocument(document)
+
+            const query = String(document)
+            debug(`Prisma Client call:`)
+            debug(
+              `prisma.${clientMethod}(${printJsonWithErrors(
+                args,
+                [],
+                [],
+                [],
+              )})`,
+            )
+            debug(`Generated request:`)
+            debug(query + '\n')
+
+            return this.fetcher.request({
+              document,
+              clientMethod,
+              typeName: mapping.model,
+              dataPath: params.dataPath,
+              isList,
+              rootField,
+              collectTimestamps,
+              callsite,
+              transaction,
+              interactiveTransactionId,
+              cache:
+                operation === 'query' ? this.getCacheOptions(cache) : undefined,
+              signal,
+            })
+          }
 
-          const clientImplementation = {
+          const request = (transaction?: TransactionRequest) =>
+            this.runMiddlewares(
+              {
+                model: mapping.model,
+                action: actionName as Action,
+                args,
+                dataPath,
+                runInTransaction: Boolean(
+                  transaction || interactiveTransactionId,
+                ),
+              },
+              (params) => executeRequest(params, transaction),
+            )
+
+          let requestPromise: Promise<any>
+
+          const clientImplementation: ModelClientPromise = {
             then: (onfulfilled, onrejected) => {
               if (!requestPromise) {
-                requestPromise = this.fetcher.request({
-                  document,
-                  clientMethod,
-                  typeName: mapping.model,
-                  dataPath,
-                  isList,
-                  rootField,
-                  collectTimestamps,
-                  callsite,
-                })
+                requestPromise = request()
               }
 
               return requestPromise.then(onfulfilled, onrejected)
             },
             catch: (onrejected) => {
               if (!requestPromise) {
-                requestPromise = this.fetcher.request({
-                  document,
-                  clientMethod,
-                  typeName: mapping.model,
-                  dataPath,
-                  isList,
-                  rootField,
-                  collectTimestamps,
-                  callsite,
-                })
+                requestPromise = request()
               }
 
               return requestPromise.catch(onrejected)
             },
             finally: (onfinally) => {
               if (!requestPromise) {
-                requestPromise = this.fetcher.request({
-                  document,
-                  clientMethod,
-                  typeName: mapping.model,
-                  dataPath,
-                  isList,
-                  rootField,
-                  collectTimestamps,
-                  callsite,
-                })
+                requestPromise = request()
               }
 
               return requestPromise.finally(onfinally)
             },
+            requestTransaction: (batch: TransactionBatch, index: number) => {
+              if (!requestPromise) {
+                requestPromise = request({ batch, index })
+              }
+
+              return batch.track(index, requestPromise)
+            },
+            _isRequested: () => Boolean(requestPromise),
             _collectTimestamps: collectTimestamps,
           }
 
@@ -517,13 +892,14 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
               const newDataPath = [...dataPath, prefix, field.name]
               const newArgs = deepSet(args, newDataPath, fieldArgs || true)
 
-              return clients[field.type]({
+              return this.clients[field.type]({
                 operation,
                 actionName,
                 rootField,
                 args: newArgs,
                 dataPath: newDataPath,
                 isList: field.isList,
+                interactiveTransactionId,
               })
             }
           }
@@ -534,7 +910,17 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
         acc[model.name] = prismaClient
 
         return acc
-      }, {})
+      }, {} as Dictionary<ModelClient>)
+
+      Object.assign(this, this.getDelegates())
+    }
+    /**
+     * Creates the model delegates like `prisma.user`.
+     * If `interactiveTransactionId` is provided, all requests of the delegates
+     * are executed in that transaction.
+     */
+    private getDelegates(interactiveTransactionId?: string) {
+      const delegates = {}
 
       for (const mapping of this.dmmf.mappings) {
         const lowerCaseModel = lowerCase(mapping.model)
@@ -543,6 +929,7 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
           model: true,
           plural: true,
           aggregate: true,
+          groupBy: true,
         }
 
         const delegate: any = Object.entries(mapping).reduce(
@@ -550,11 +937,12 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
             if (!denyList[actionName]) {
               const operation = getOperation(actionName as any)
               acc[actionName] = (args) =>
-                clients[mapping.model]({
+                this.clients[mapping.model]({
                   operation,
                   actionName,
                   rootField,
                   args,
+                  interactiveTransactionId,
                 })
             }
 
@@ -564,20 +952,67 @@ export function getPrismaClient(config: GetPrismaClientOptions): any {
         )
 
         delegate.count = (args) =>
-          clients[mapping.model]({
+          this.clients[mapping.model]({
             operation: 'query',
             actionName: 'count',
-            rootField: mapping.aggregate,
-            args: args
-              ? {
-                  select: { count: args },
-                }
-              : undefined,
+            rootField: mapping.aggregate!,
+            args,
             dataPath: ['count'],
+            interactiveTransactionId,
+          })
+
+        delegate.aggregate = (args) =>
+          this.clients[mapping.model]({
+            operation: 'query',
+            actionName: 'aggregate',
+            rootField: mapping.aggregate!,
+            args,
+            interactiveTransactionId,
           })
 
-        this[lowerCaseModel] = delegate
+        // engines without a groupBy query are grouped in the client
+        delegate.groupBy = mapping.groupBy
+          ? (args) =>
+              this.clients[mapping.model]({
+                operation: 'query',
+                actionName: 'groupBy',
+                rootField: mapping.groupBy!,
+                args,
+                isList: true,
+                interactiveTransactionId,
+              })
+          : (args) => groupBy({ findMany: delegate.findMany, args })
+
+        // the id is appended to the sort specs of `orderBy` as a tie-breaker
+        const canOrderByList = Boolean(
+          this.dmmf.queryType.fields
+            .find((f) => f.name === mapping.findMany)
+            ?.args.find((a) => a.name === 'orderBy')
+            ?.inputType.some((t) => t.isList),
+        )
+
+        delegate.iterate = (args, options?: IterateOptions) =>
+          iterate({
+            findMany: delegate.findMany,
+            model: this.dmmf.modelMap[mapping.model],
+            args,
+            canOrderByList,
+            ...options,
+          })
+
+        delegate.findManyStream = (args, options?: IterateOptions) =>
+          iterateStream({
+            findMany: delegate.findMany,
+            model: this.dmmf.modelMap[mapping.model],
+            args,
+            canOrderByList,
+            ...options,
+          })
+
+        delegates[lowerCaseModel] = delegate
       }
+
+      return delegates
     }
   }
 
@@ -588,24 +1023,70 @@ export class PrismaClientFetcher {
   prisma: any
   debug: boolean
   hooks: any
-  dataloader: Dataloader<{ document: Document }>
-
-  constructor(prisma, enableDebug = false, hooks?: any) {
+  cache?: QueryCache
+  private createCache?: () => QueryCache
+  dataloader: Dataloader<{
+    document: Document
+    interactiveTransactionId?: string
+    signal?: AbortSignalLike
+    isRelationCount?: boolean
+  }>
+
+  constructor(
+    prisma,
+    enableDebug = false,
+    hooks?: any,
+    createCache?: () => QueryCache,
+  ) {
     this.prisma = prisma
     this.debug = enableDebug
     this.hooks = hooks
+    this.createCache = createCache
     this.dataloader = new Dataloader({
       batchLoader: async (requests) => {
+        const findManyBatchInfos = requests.map((r) =>
+          this.getFindManyBatchInfo(r.document),
+        )
+        if (findManyBatchInfos[0]) {
+          return this.requestFindManyBatch(
+            requests,
+            findManyBatchInfos as FindManyBatchInfo[],
+          )
+        }
+
         const queries = requests.map((r) => String(r.document))
         await this.prisma.connect()
-        return this.prisma.engine.requestBatch(queries)
+        return this.prisma.engine.requestBatch(queries, false, {
+          timeout: this.prisma.queryTimeout,
+          exactNumberPaths: flatMap(requests, (r) =>
+            getExactNumberPaths(r.document),
+          ),
+        })
       },
       singleLoader: async (request) => {
         const query = String(request.document)
         await this.prisma.connect()
-        return this.prisma.engine.request(query)
+        return this.prisma.engine.request(query, {
+          transactionId: request.interactiveTransactionId,
+          signal: request.signal,
+          timeout: this.prisma.queryTimeout,
+          exactNumberPaths: getExactNumberPaths(request.document),
+        })
       },
       batchBy: (request) => {
+        if (request.interactiveTransactionId) {
+          return null
+        }
+
+        if (request.isRelationCount) {
+          return 'relation-count-batch'
+        }
+
+        const findManyBatchInfo = this.getFindManyBatchInfo(request.document)
+        if (findManyBatchInfo) {
+          return `findMany-batch|${findManyBatchInfo.key}`
+        }
+
         if (!request.document.children[0].name.startsWith('findOne')) {
           return null
         }
@@ -635,6 +1116,10 @@ export class PrismaClientFetcher {
     callsite,
     collectTimestamps,
     clientMethod,
+    transaction,
+    interactiveTransactionId,
+    cache,
+    signal,
   }: {
     document: Document
     dataPath: string[]
@@ -644,24 +1129,48 @@ export class PrismaClientFetcher {
     clientMethod: string
     callsite?: string
     collectTimestamps?: CollectTimestamps
+    transaction?: TransactionRequest
+    interactiveTransactionId?: string
+    cache?: CacheOptions
+    signal?: AbortSignalLike
   }) {
+    const {
+      document: engineDocument,
+      infos: relationCounts,
+    } = extractRelationCounts(document, this.prisma.dmmf)
     if (this.hooks && this.hooks.beforeRequest) {
-      const query = String(document)
+      const query = String(engineDocument)
       this.hooks.beforeRequest({
         query,
         path: dataPath,
         rootField,
         typeName,
-        document,
+        document: engineDocument,
         isList,
       })
     }
     try {
       collectTimestamps && collectTimestamps.record('Pre-engine_request')
-      const { data, elapsed } = await this.dataloader.request({
-        document,
+      const { data, elapsed } = await this.requestWithCache({
+        document: engineDocument,
+        typeName,
+        transaction,
+        interactiveTransactionId,
+        cache,
+        signal,
       })
+      if (relationCounts.length > 0) {
+        await this.requestRelationCounts(data, relationCounts, {
+          interactiveTransactionId,
+          signal,
+        })
+      }
       collectTimestamps && collectTimestamps.record('Post-engine_request')
+      this.prisma.logRequest?.({
+        model: typeName,
+        action: clientMethod.split('.').pop(),
+        duration: elapsed,
+      })
       collectTimestamps && collectTimestamps.record('Pre-unpack')
       const unpackResult = this.unpack(document, data, dataPath, rootField)
       collectTimestamps && collectTimestamps.record('Post-unpack')
@@ -695,6 +1204,8 @@ export class PrismaClientFetcher {
         throw new PrismaClientInitializationError(message)
       } else if (e instanceof PrismaClientRustPanicError) {
         throw new PrismaClientRustPanicError(message)
+      } else if (e instanceof PrismaClientTimeoutError) {
+        throw new PrismaClientTimeoutError(message, e.timeout)
       }
 
       throw e
@@ -706,6 +1217,173 @@ export class PrismaClientFetcher {
     }
     return message
   }
+  /**
+   * Sends `findMany` requests, which only filter by the same relation scalar,
+   * as one request with an `in` filter and splits the result per request
+   */
+  private async requestFindManyBatch(
+    requests: Array<{ document: Document; signal?: AbortSignalLike }>,
+    infos: FindManyBatchInfo[],
+  ) {
+    const { document, addedField } = mergeFindManyDocuments(
+      requests.map((r) => r.document),
+      infos[0],
+    )
+    const signal = BatchAbortSignal.from(requests.map((r) => r.signal))
+    try {
+      await this.prisma.connect()
+      const response = await this.prisma.engine.request(String(document), {
+        signal,
+        timeout: this.prisma.queryTimeout,
+        exactNumberPaths: getExactNumberPaths(document),
+      })
+
+      return splitFindManyResponse(response, infos, addedField)
+    } finally {
+      signal?.dispose()
+    }
+  }
+  private getFindManyBatchInfo(document: Document) {
+    return getFindManyBatchInfo(
+      document,
+      this.prisma.dmmf,
+      this.prisma.internalDatasources?.[0]?.connectorType,
+    )
+  }
+  /**
+   * Resolves the virtual `_count` selections with one aggregation per record and relation.
+   * The aggregations are sent to the engine as one batch.
+   */
+  private async requestRelationCounts(
+    data: any,
+    infos: RelationCountInfo[],
+    {
+      interactiveTransactionId,
+      signal,
+    }: { interactiveTransactionId?: string; signal?: AbortSignalLike },
+  ) {
+    const requests: Promise<void>[] = []
+    for (const info of infos) {
+      for (const record of getRelationCountRecords(
+        data.data ?? data,
+        info.path,
+      )) {
+        const counts = {}
+        for (const relation of info.relations) {
+          const { document, rootField } = makeRelationCountDocument(
+            this.prisma.dmmf,
+            info,
+            relation,
+            record[info.idField],
+          )
+          requests.push(
+            this.dataloader
+              .request({
+                document,
+                interactiveTransactionId,
+                signal,
+                isRelationCount: true,
+              })
+              .then((response) => {
+                counts[relation] = response.data.data[rootField].count
+              }),
+          )
+        }
+
+        record._count = counts
+        if (info.addedIdField) {
+          delete record[info.idField]
+        }
+      }
+    }
+
+    await Promise.all(requests)
+  }
+  /**
+   * Sends the requests of `prisma.transaction([...])` as one batch,
+   * which the engine executes in a single database transaction
+   */
+  async requestTransactionBatch(documents: Document[]) {
+    await this.prisma.connect()
+    return this.prisma.engine.requestBatch(documents.map(String), true, {
+      timeout: this.prisma.queryTimeout,
+      exactNumberPaths: flatMap(documents, getExactNumberPaths),
+    })
+  }
+  private async requestWithCache({
+    document,
+    typeName,
+    transaction,
+    interactiveTransactionId,
+    cache,
+    signal,
+  }: {
+    document: Document
+    typeName: string
+    transaction?: TransactionRequest
+    interactiveTransactionId?: string
+    cache?: CacheOptions
+    signal?: AbortSignalLike
+  }) {
+    // queries in transactions need to see the writes of the transaction
+    const useCache =
+      Boolean(cache) &&
+      document.type === 'query' &&
+      !transaction &&
+      !interactiveTransactionId
+    // results cached before the commit of an interactive transaction
+    // have to be invalidated by it, even if the cache didn't exist at its write
+    const queryCache =
+      useCache || (document.type === 'mutation' && interactiveTransactionId)
+        ? this.getCache()
+        : this.cache
+    const query = useCache ? String(document) : ''
+
+    if (useCache && queryCache) {
+      const cached = await queryCache.get(typeName, query)
+      if (cached !== undefined) {
+        return JSON.parse(cached)
+      }
+    }
+
+    const response = transaction
+      ? await transaction.batch.add(transaction.index, document)
+      : await this.dataloader.request({
+          document,
+          interactiveTransactionId,
+          signal,
+        })
+
+    if (useCache && queryCache) {
+      await queryCache.set(
+        typeName,
+        query,
+        JSON.stringify(response),
+        cache!.ttl,
+      )
+    } else if (queryCache && document.type === 'mutation') {
+      // the response of a batch transaction arrives after the commit,
+      // the writes of an interactive transaction become visible with its commit
+      if (interactiveTransactionId) {
+        queryCache.invalidateOnCommit(interactiveTransactionId, typeName)
+      } else {
+        await queryCache.invalidate(typeName)
+      }
+    }
+
+    return response
+  }
+  /**
+   * Creates the query cache on the first request that needs it,
+   * so clients that don't cache any query don't hold one
+   */
+  private getCache(): QueryCache | undefined {
+    if (!this.cache && this.createCache) {
+      this.cache = this.createCache()
+    }
+
+    return this.cache
+  }
   unpack(document, data, path, rootField) {
     if (data.data) {
       data = data.data
@@ -762,6 +1440,97 @@ class CollectTimestamps {
   }
 }
 
+const aggregateKeys = {
+  avg: true,
+  sum: true,
+  min: true,
+  max: true,
+}
+
+/**
+ * Moves the aggregations of `prisma.user.aggregate()` into the selection set,
+ * so that `{ where, count: true, avg: { age: true } }` becomes
+ * `{ where, select: { count: true, avg: { select: { age: true } } } }`
+ */
+export function transformAggregateArgs(args?: any) {
+  return Object.entries(args ?? {}).reduce(
+    (acc, [key, value]) => {
+      if (key === 'count') {
+        acc.select.count = value
+      } else if (aggregateKeys[key]) {
+        acc.select[key] = { select: value }
+      } else {
+        acc[key] = value
+      }
+
+      return acc
+    },
+    { select: {} } as any,
+  )
+}
+
+/**
+ * Selects the grouped fields and the aggregations of `prisma.user.groupBy()`,
+ * so that `{ by: ['country'], count: true }` becomes
+ * `{ by: ['country'], select: { country: true, count: true } }`
+ */
+export function transformGroupByArgs(args?: any) {
+  const { by = [], ...rest } = args ?? {}
+  const { select, ...aggregateArgs } = transformAggregateArgs(rest)
+
+  for (const field of by) {
+    select[field] = true
+  }
+
+  return { by, ...aggregateArgs, select }
+}
+
+/**
+ * Turns the errors emitted by the engine, which are either error logs
+ * or errors of failed requests, into an `ErrorEvent`
+ */
+export function getErrorEvent(event: any): ErrorEvent {
+  if (event instanceof Error) {
+    return {
+      timestamp: new Date(),
+      message: event.message,
+      target: 'request',
+      code: (event as PrismaClientKnownRequestError).code,
+      isPanic: event instanceof PrismaClientRustPanicError,
+      error: event,
+    }
+  }
+
+  const isPanic = event.fields.message === 'PANIC'
+
+  return {
+    timestamp: event.timestamp,
+    message: isPanic
+      ? `PANIC: ${event.fields.reason} in ${event.fields.file}:${event.fields.line}:${event.fields.column}`
+      : event.fields.message,
+    target: event.target,
+    isPanic,
+  }
+}
+
+/**
+ * Separates the `cache` and `signal` args, which are handled by the client,
+ * from the args that are sent to the engine
+ */
+function extractClientArgs(
+  args?: any,
+): { cache?: CacheOptions | boolean; signal?: AbortSignalLike; args?: any } {
+  if (
+    !args ||
+    (typeof args.cache === 'undefined' && typeof args.signal === 'undefined')
+  ) {
+    return { args }
+  }
+
+  const { cache, signal, ...rest } = args
+  return { cache, signal, args: rest }
+}
+
 export function getOperation(action: DMMF.ModelAction): 'query' | 'mutation' {
   if (
     action === DMMF.ModelAction.findMany ||
@@ -0,0 +1,289 @@
+import { Decimal } from './utils/decimal'
+
+interface GroupByParams {
+  findMany: (args: any) => Promise<any[]>
+  args?: any
+}
+
+const aggregationNames = ['avg', 'sum', 'min', 'max']
+
+interface AggregateFilter {
+  aggregation: string
+  // not set for the `count` of the records of a group
+  field?: string
+  filter: any
+}
+
+/**
+ * Resolves `prisma.user.groupBy()` in the client, as the engine can't group records.
+ * The matching records are requested with `findMany`, so the grouped values are
+ * mapped by `unpack` like any other record, e.g. DateTime fields become a `Date`.
+ * Note, that all matching records are loaded at once, so `where` should be used to
+ * keep their number small. `skip` and `take` only apply to the groups.
+ * `orderBy` and the filters of `having` on fields may only refer to grouped fields.
+ * That's why they can be applied to the records instead of the groups.
+ * Filters on aggregations like `having: { age: { avg: { gt: 18 } } }` or
+ * `having: { count: { gt: 1 } }` are applied to the groups.
+ */
+export async function groupBy({
+  findMany,
+  args = {},
+}: GroupByParams): Promise<any[]> {
+  const {
+    by,
+    where,
+    having,
+    orderBy,
+    skip = 0,
+    take,
+    cursor,
+    count,
+    signal,
+  } = args
+
+  if (!Array.isArray(by) || by.length === 0) {
+    throw new Error(
+      `Invalid \`by\` arg of groupBy. It needs to be a non-empty list of fields.`,
+    )
+  }
+
+  if (cursor) {
+    throw new Error(`The \`cursor\` arg is not supported in groupBy.`)
+  }
+
+  const { recordFilter, aggregateFilters } = splitHaving(having, by)
+  assertGroupedFields('having', recordFilter, by)
+  for (const order of Array.isArray(orderBy) ? orderBy : [orderBy]) {
+    assertGroupedFields('orderBy', order, by)
+  }
+
+  const aggregations = aggregationNames.filter((name) => args[name])
+  const select = {}
+  for (const field of by) {
+    select[field] = true
+  }
+  for (const name of aggregations) {
+    for (const field of Object.keys(args[name])) {
+      select[field] = true
+    }
+  }
+  for (const { field } of aggregateFilters) {
+    if (field) {
+      select[field] = true
+    }
+  }
+
+  const findManyArgs: any = { select }
+  if (where && recordFilter) {
+    findManyArgs.where = { AND: [where, recordFilter] }
+  } else if (where || recordFilter) {
+    findManyArgs.where = where ?? recordFilter
+  }
+  if (orderBy) {
+    findManyArgs.orderBy = orderBy
+  }
+  if (signal) {
+    findManyArgs.signal = signal
+  }
+
+  // the records are ordered by the grouped fields,
+  // so the groups are created in the requested order
+  const groups = new Map<string, any[]>()
+  for (const record of await findMany(findManyArgs)) {
+    const key = JSON.stringify(
+      by.map((field) => record[field]),
+      (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+    )
+    const group = groups.get(key)
+    if (group) {
+      group.push(record)
+    } else {
+      groups.set(key, [record])
+    }
+  }
+
+  const matchingGroups = [...groups.values()].filter((records) =>
+    aggregateFilters.every(({ aggregation, field, filter }) =>
+      matchesFilter(
+        field
+          ? aggregate(aggregation, getValues(records, field))
+          : records.length,
+        filter,
+      ),
+    ),
+  )
+
+  const results = matchingGroups.map((records) => {
+    const result = {}
+    for (const field of by) {
+      result[field] = records[0][field]
+    }
+    if (count) {
+      result['count'] = records.length
+    }
+    for (const name of aggregations) {
+      result[name] = Object.keys(args[name]).reduce((acc, field) => {
+        acc[field] = aggregate(name, getValues(records, field))
+        return acc
+      }, {})
+    }
+
+    return result
+  })
+
+  if (typeof take !== 'number') {
+    return results.slice(skip)
+  }
+
+  // a negative `take` selects the groups from the end
+  return take >= 0
+    ? results.slice(skip, skip + take)
+    : results.slice(
+        Math.max(results.length - skip + take, 0),
+        results.length - skip,
+      )
+}
+
+/**
+ * Separates the filters of `having` on aggregations like `{ age: { avg: { gt: 18 } } }`
+ * from the filters on fields, which can be applied to the records
+ */
+function splitHaving(
+  having: any,
+  by: string[],
+): { recordFilter?: any; aggregateFilters: AggregateFilter[] } {
+  const aggregateFilters: AggregateFilter[] = []
+  const recordFilter = {}
+  for (const [key, filter] of Object.entries(having ?? {})) {
+    if (key === 'count' && !by.includes(key)) {
+      aggregateFilters.push({ aggregation: 'count', filter })
+    } else if (isAggregationFilter(filter)) {
+      for (const aggregation of Object.keys(filter)) {
+        aggregateFilters.push({
+          aggregation,
+          field: key,
+          filter: filter[aggregation],
+        })
+      }
+    } else {
+      recordFilter[key] = filter
+    }
+  }
+
+  return {
+    recordFilter:
+      Object.keys(recordFilter).length > 0 ? recordFilter : undefined,
+    aggregateFilters,
+  }
+}
+
+function isAggregationFilter(filter: any): boolean {
+  return (
+    typeof filter === 'object' &&
+    filter !== null &&
+    !Decimal.isDecimal(filter) &&
+    Object.keys(filter).length > 0 &&
+    Object.keys(filter).every((key) => aggregationNames.includes(key))
+  )
+}
+
+/**
+ * Applies a filter like `{ gt: 18 }` or `18` to an aggregated value
+ */
+function matchesFilter(value: any, filter: any): boolean {
+  if (
+    typeof filter !== 'object' ||
+    filter === null ||
+    Decimal.isDecimal(filter)
+  ) {
+    return isEqual(value, filter)
+  }
+
+  return Object.entries(filter).every(([operator, operand]: [string, any]) => {
+    switch (operator) {
+      case 'equals':
+        return isEqual(value, operand)
+      case 'not':
+        return !isEqual(value, operand)
+      case 'in':
+        return operand.some((o) => isEqual(value, o))
+      case 'notIn':
+        return !operand.some((o) => isEqual(value, o))
+    }
+
+    const matches = comparisons[operator]
+    if (!matches) {
+      throw new Error(
+        `Invalid \`having\` arg of groupBy. The filter \`${operator}\` can't be used on aggregations.`,
+      )
+    }
+
+    return (
+      value !== null && operand !== null && matches(compare(value, operand))
+    )
+  })
+}
+
+const comparisons: { [operator: string]: (order: number) => boolean } = {
+  lt: (order) => order < 0,
+  lte: (order) => order <= 0,
+  gt: (order) => order > 0,
+  gte: (order) => order >= 0,
+}
+
+function isEqual(a: any, b: any): boolean {
+  return a === null || b === null ? a === b : compare(a, b) === 0
+}
+
+function getValues(records: any[], field: string): any[] {
+  return records.map((record) => record[field]).filter((v) => v !== null)
+}
+
+function assertGroupedFields(argName: string, arg: any, by: string[]) {
+  const field = Object.keys(arg ?? {}).find((key) => !by.includes(key))
+  if (field) {
+    throw new Error(
+      `Invalid \`${argName}\` arg of groupBy. The field \`${field}\` needs to be provided in \`by\`.`,
+    )
+  }
+}
+
+/**
+ * Aggregates the non-null values of a field like the engine does.
+ * Decimal values are added, divided and compared with their own methods,
+ * so they don't lose precision.
+ */
+function aggregate(name: string, values: any[]): any {
+  if (values.length === 0) {
+    return null
+  }
+
+  if (name === 'min' || name === 'max') {
+    const sign = name === 'min' ? -1 : 1
+    return values.reduce((acc, value) =>
+      compare(value, acc) * sign > 0 ? value : acc,
+    )
+  }
+
+  const sum = values.reduce((acc, value) =>
+    Decimal.isDecimal(acc) ? acc.plus(value) : acc + value,
+  )
+  if (name === 'sum') {
+    return sum
+  }
+
+  return Decimal.isDecimal(sum)
+    ? sum.dividedBy(values.length)
+    : Number(sum) / values.length
+}
+
+function compare(a: any, b: any): number {
+  if (Decimal.isDecimal(a)) {
+    return a.comparedTo(b)
+  }
+  if (Decimal.isDecimal(b)) {
+    return -b.comparedTo(a)
+  }
+
+  return a < b ? -1 : a > b ? 1 : 0
+}
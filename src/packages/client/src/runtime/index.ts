@@ -14,6 +14,10 @@ export {
   PrismaClientUnknownRequestError,
   PrismaClientInitializationError,
   PrismaClientRustPanicError,
+  PrismaClientTimeoutError,
+  AbortError,
 } from '@prisma/engine-core'
+export type { AbortSignalLike } from '@prisma/engine-core'
 export { getPrismaClient } from './getPrismaClient'
+export { Decimal } from './utils/decimal'
 export * as sqltag from 'sql-template-tag'
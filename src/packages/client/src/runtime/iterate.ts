@@ -0,0 +1,210 @@
+import { Readable } from 'stream'
+import { DMMF } from './dmmf-types'
+import { flatMap } from './utils/flatMap'
+import { omit } from './utils/omit'
+
+export interface IterateOptions {
+  /**
+   * How many records are fetched from the database per request
+   * @default 100
+   */
+  pageSize?: number
+}
+
+interface IterateParams extends IterateOptions {
+  findMany: (args: any) => Promise<any[]>
+  model: DMMF.Model
+  args?: any
+  /**
+   * Whether the query engine accepts a list of sort specs in `orderBy`
+   */
+  canOrderByList?: boolean
+}
+
+/**
+ * Returns the fields that identify a record of the model,
+ * either from `@@id` or from the field annotated with `@id`
+ */
+export function getIdFields(model: DMMF.Model): string[] {
+  if (model.idFields && model.idFields.length > 0) {
+    return model.idFields
+  }
+
+  return model.fields.filter((f) => f.isId).map((f) => f.name)
+}
+
+/**
+ * Builds the `cursor` arg pointing to the given record.
+ * Compound ids are addressed with their generated name, e.g. `{ a_b: { a, b } }`
+ */
+export function getCursor(
+  record: object,
+  idFields: string[],
+): Record<string, any> {
+  if (idFields.length === 1) {
+    return { [idFields[0]]: record[idFields[0]] }
+  }
+
+  return {
+    [idFields.join('_')]: idFields.reduce((acc, field) => {
+      acc[field] = record[field]
+      return acc
+    }, {}),
+  }
+}
+
+/**
+ * Appends the id fields to `orderBy` as a tie-breaker, if it doesn't contain a unique
+ * field. Otherwise records with the same value could be skipped or repeated across pages.
+ */
+export function getUniqueOrderBy(
+  model: DMMF.Model,
+  idFields: string[],
+  orderBy: any,
+  canOrderByList = false,
+): any {
+  if (!orderBy) {
+    return orderBy
+  }
+
+  const orders: object[] = Array.isArray(orderBy) ? orderBy : [orderBy]
+  const orderedFields = flatMap(orders, (order) => Object.keys(order ?? {}))
+  const isUnique =
+    idFields.every((field) => orderedFields.includes(field)) ||
+    model.fields.some(
+      (f) => (f.isUnique || f.isId) && orderedFields.includes(f.name),
+    )
+  if (isUnique) {
+    return orderBy
+  }
+
+  if (!canOrderByList) {
+    throw new Error(
+      `Can't iterate over the model ${
+        model.name
+      } ordered by \`${orderedFields.join(
+        '`, `',
+      )}\`, as it's not unique and the query engine can't order by the id in addition. Please order by a unique field.`,
+    )
+  }
+
+  return [
+    ...orders,
+    ...idFields
+      .filter((field) => !orderedFields.includes(field))
+      .map((field) => ({ [field]: 'asc' })),
+  ]
+}
+
+/**
+ * Walks through all records matching `args` by requesting them page by page,
+ * using `cursor` and `take` on the id fields of the model.
+ * Only one page is held in memory at a time.
+ */
+export async function* iterate({
+  findMany,
+  model,
+  args = {},
+  pageSize = 100,
+  canOrderByList,
+}: IterateParams): AsyncGenerator<any, void, undefined> {
+  const idFields = getIdFields(model)
+
+  if (idFields.length === 0) {
+    throw new Error(
+      `Can't iterate over the model ${model.name}, as it doesn't have an @id or @@id.`,
+    )
+  }
+
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new Error(
+      `Invalid pageSize ${pageSize}. It needs to be a positive integer.`,
+    )
+  }
+
+  const { take, ...findManyArgs } = args
+  if (findManyArgs.orderBy) {
+    findManyArgs.orderBy = getUniqueOrderBy(
+      model,
+      idFields,
+      findManyArgs.orderBy,
+      canOrderByList,
+    )
+  }
+
+  // the id fields are needed to build the cursor, even if they are not selected
+  const addedFields = findManyArgs.select
+    ? idFields.filter((field) => !findManyArgs.select[field])
+    : []
+
+  if (addedFields.length > 0) {
+    findManyArgs.select = addedFields.reduce(
+      (acc, field) => {
+        acc[field] = true
+        return acc
+      },
+      { ...findManyArgs.select },
+    )
+  }
+
+  let remaining: number = typeof take === 'number' ? take : Infinity
+  let pageArgs = findManyArgs
+
+  while (remaining > 0) {
+    const pageTake = Math.min(pageSize, remaining)
+    const page = await findMany({ ...pageArgs, take: pageTake })
+
+    if (page.length === 0) {
+      return
+    }
+
+    const cursor = getCursor(page[page.length - 1], idFields)
+
+    for (const record of page) {
+      yield addedFields.length > 0 ? omit(record, addedFields) : record
+    }
+
+    remaining -= page.length
+
+    if (page.length < pageTake) {
+      return
+    }
+
+    // the user-provided `skip` only applies to the first page,
+    // afterwards we skip the record the cursor points to
+    pageArgs = { ...findManyArgs, cursor, skip: 1 }
+  }
+}
+
+/**
+ * Same as `iterate`, but returns a readable stream in object mode
+ */
+export function iterateStream(params: IterateParams): Readable {
+  return toReadable(iterate(params))
+}
+
+/**
+ * Wraps an async iterator in a readable stream in object mode.
+ * Destroying the stream stops the iterator, so no more pages are requested.
+ */
+export function toReadable(
+  iterator: AsyncGenerator<any, void, undefined>,
+): Readable {
+  return new Readable({
+    objectMode: true,
+    async read() {
+      try {
+        const { value, done } = await iterator.next()
+        this.push(done ? null : value)
+      } catch (e) {
+        this.destroy(e)
+      }
+    },
+    destroy(error, callback) {
+      iterator.return().then(
+        () => callback(error),
+        (e) => callback(error ?? e),
+      )
+    },
+  })
+}
@@ -8,6 +8,8 @@ import {
   AtMostOneError,
   FieldError,
   InvalidArgError,
+  InvalidArgNameError,
+  InvalidArgTypeError,
   InvalidFieldError,
 } from './error-types'
 import {
@@ -31,6 +33,7 @@ import stringifyObject from './utils/stringifyObject'
 import { visit } from './visit'
 import stripAnsi from 'strip-ansi'
 import { flatMap } from './utils/flatMap'
+import { Decimal } from './utils/decimal'
 
 const tab = 2
 
@@ -315,6 +318,18 @@ ${errorMessages}${missingArgsLegend}\n`
         'not both',
       )} at the same time.`
     }
+    if (error.type === 'invalidFieldName' && error.aggregation) {
+      const additional = minimal
+        ? ''
+        : ` Available options are listed in ${chalk.greenBright.dim('green')}.`
+      return `Field ${chalk.redBright(
+        `\`${error.providedName}\``,
+      )} of type ${chalk.bold(
+        error.aggregation.fieldType,
+      )} can't be used in ${chalk.bold(
+        error.aggregation.name,
+      )}, as only numeric fields can be aggregated.${additional}`
+    }
     if (error.type === 'invalidFieldName') {
       const statement = error.isInclude ? 'include' : 'select'
       const wording = error.isIncludeScalar ? 'Invalid scalar' : 'Unknown'
@@ -381,6 +396,10 @@ ${errorMessages}${missingArgsLegend}\n`
               `{ select: { ${error.providedName}: ${error.providedValue} } }`,
             ),
         )}`
+      } else if (isUnsupportedStringFilterMode(error)) {
+        str += ` The ${chalk.bold(
+          error.providedName,
+        )} filter is not supported by the connector of your datasource or by the query engine.`
       } else if (error.didYouMeanArg) {
         str += ` Did you mean \`${chalk.greenBright(error.didYouMeanArg)}\`?`
         if (!hasMissingItems && !minimal) {
@@ -467,7 +486,13 @@ ${errorMessages}${missingArgsLegend}\n`
         `prisma.${this.children[0].name}`,
       )}. Provided ${chalk.redBright(
         getGraphQLType(error.providedValue),
-      )}, expected ${expected}`
+      )}, expected ${expected}${
+        isUnsafeLongValue(error)
+          ? `\nNumbers outside of the safe integer range lose precision, please pass them as a ${chalk.greenBright(
+              'bigint',
+            )}.`
+          : ''
+      }`
     }
 
     if (error.type === 'invalidNullArg') {
@@ -552,6 +577,26 @@ ${errorMessages}${missingArgsLegend}\n`
 
 export class PrismaClientValidationError extends Error {}
 
+/**
+ * Numbers are only accepted for Long args, if they are safe integers
+ */
+function isUnsafeLongValue(error: InvalidArgTypeError): boolean {
+  return (
+    ['Int', 'List<Int>'].includes(getGraphQLType(error.providedValue)) &&
+    error.requiredType.inputType.some((t) => t.type === 'Long')
+  )
+}
+
+/**
+ * `mode` and `search` are left out of the string filters of connectors and engines, which don't support them
+ */
+function isUnsupportedStringFilterMode(error: InvalidArgNameError): boolean {
+  return (
+    ['mode', 'search'].includes(error.providedName) &&
+    getInputTypeName(error.originalType).endsWith('StringFilter')
+  )
+}
+
 export interface FieldArgs {
   name: string
   schemaField?: DMMF.SchemaField // optional as we want to even build up invalid queries to collect all errors
@@ -715,6 +760,11 @@ function stringify(
     return `[${obj.join(', ')}]`
   }
 
+  // bigints can't be represented in JSON, the engine parses them from strings
+  if (typeof obj === 'bigint') {
+    return JSON.stringify(obj.toString())
+  }
+
   return JSON.stringify(obj, _, tabbing)
 }
 
@@ -912,36 +962,66 @@ export function transformDocument(document: Document): Document {
           return [new Arg({ ...ar, value })]
         } else if (ar.value instanceof Args) {
           if (ar.schemaArg && !ar.schemaArg.isRelationFilter) {
-            return ar.value.args.map((a) => {
-              return new Arg({
-                key: getFilterArgName(ar.key, a.key),
-                value: a.value,
-                /**
-                 * This is an ugly hack. It assumes, that deep somewhere must be a valid inputType for
-                 * this argument
-                 */
-                argType: deepGet(ar, ['value', 'args', '0', 'argType']),
-                schemaArg: a.schemaArg,
-              })
-            })
+            return flattenFilterArgs(ar.key, ar)
           }
         }
         return [ar]
       }),
     )
   }
+  function flattenFilterArgs(key: string, ar: Arg): Arg[] {
+    return flatMap((ar.value as Args).args, (a) => {
+      // relation count filters are nested one level deeper, e.g. { posts: { count: { gt: 1 } } }
+      if (a.value instanceof Args && a.schemaArg?.isRelationCountFilter) {
+        return flattenFilterArgs(getFilterArgName(key, a.key), a)
+      }
+      return [
+        new Arg({
+          key: getFilterArgName(key, a.key),
+          value: a.value,
+          // the filters of a field have different types, e.g. `contains` and `mode`
+          argType: a.argType,
+          isEnum: a.isEnum,
+          schemaArg: a.schemaArg,
+        }),
+      ]
+    })
+  }
+  function getOrderEnumValue(args: Args): string | undefined {
+    const orderArg = args.args[0]
+    // relations are ordered by their nested sort spec, e.g. author_name_ASC or posts_count_DESC
+    if (orderArg && orderArg.value instanceof Args) {
+      const nestedValue = getOrderEnumValue(orderArg.value)
+      return nestedValue ? `${orderArg.key}_${nestedValue}` : undefined
+    }
+    if (orderArg && orderArg.value) {
+      return `${orderArg.key}_${orderArg.value!.toString().toUpperCase()}`
+    }
+
+    return undefined
+  }
   function transformOrderArg(arg: Arg) {
     if (arg.value instanceof Args) {
-      const orderArg = arg.value.args[0]
-      if (orderArg && orderArg.value) {
+      const value = getOrderEnumValue(arg.value)
+      if (value) {
         return new Arg({
           ...arg,
           isEnum: true,
-          value: `${orderArg.key}_${orderArg.value!.toString().toUpperCase()}`,
+          value,
         })
       }
     }
 
+    if (isArgsArray(arg.value)) {
+      return new Arg({
+        ...arg,
+        isEnum: true,
+        value: arg.value
+          .map(getOrderEnumValue)
+          .filter((value): value is string => Boolean(value)),
+      })
+    }
+
     return arg
   }
   return visit(document, {
@@ -981,7 +1061,7 @@ function isArgsArray(input: any): input is Args[] {
   return false
 }
 
-function getFilterArgName(arg: string, filter: string) {
+export function getFilterArgName(arg: string, filter: string) {
   if (filter === 'equals') {
     return arg
   }
@@ -996,6 +1076,32 @@ function convertToSnakeCase(str: string): string {
     .toLowerCase()
 }
 
+/**
+ * Checks, if an unknown field of an aggregation like `avg` is a model field,
+ * which can't be aggregated. `path` is e.g. `['query', 'aggregateUser', 'avg']`
+ */
+function getInvalidAggregation(
+  dmmf: DMMFClass,
+  schemaField: DMMF.SchemaField,
+  path: string[],
+  name: string,
+): InvalidFieldNameError['aggregation'] {
+  const mapping = dmmf.mappings.find((m) => m.aggregate === path[1])
+  if (
+    !mapping ||
+    path.length !== 3 ||
+    !['avg', 'sum', 'min', 'max'].includes(schemaField.name)
+  ) {
+    return undefined
+  }
+
+  const field = dmmf.modelMap[mapping.model].fields.find(
+    (f) => f.name === name && f.kind !== 'object',
+  )
+
+  return field ? { name: schemaField.name, fieldType: field.type } : undefined
+}
+
 export function selectionToFields(
   dmmf: DMMFClass,
   selection: any,
@@ -1021,6 +1127,7 @@ export function selectionToFields(
               outputType.fields.map((f) => f.name),
             ),
             outputType,
+            aggregation: getInvalidAggregation(dmmf, schemaField, path, name),
           },
         }),
       )
@@ -1317,12 +1424,27 @@ function hasCorrectScalarType(
   if (graphQLType === 'List<Int>' && expectedType === 'List<Float>') {
     return true
   }
-  // Int is a subset of Long
+  // Int is a subset of Long, as long as it doesn't lose precision.
+  // Bigger values need to be passed as a bigint
   if (graphQLType === 'Int' && expectedType === 'Long') {
-    return true
+    return Number.isSafeInteger(value)
   }
   if (graphQLType === 'List<Int>' && expectedType === 'List<Long>') {
-    return true
+    return value.every((v) => Number.isSafeInteger(v))
+  }
+
+  // numbers and numeric strings are turned into a Decimal by the engine
+  if (
+    ['Int', 'Float', 'String'].includes(graphQLType) &&
+    expectedType === 'Decimal'
+  ) {
+    return Decimal.isValid(value)
+  }
+  if (
+    ['List<Int>', 'List<Float>', 'List<String>'].includes(graphQLType) &&
+    expectedType === 'List<Decimal>'
+  ) {
+    return value.every((v) => Decimal.isValid(v))
   }
 
   if (graphQLType === expectedType) {
@@ -1396,11 +1518,19 @@ function valueToArg(key: string, value: any, arg: DMMF.SchemaArg): Arg | null {
     }
   }
 
+  // a single sort spec stays an object, only an actual list of them is serialized as one
+  const isSingleOrderArg =
+    isInputArgType(argInputType.type) &&
+    argInputType.type.isOrderType &&
+    !Array.isArray(value)
+
   // then the first
-  if (!argInputType.isList) {
+  if (!argInputType.isList || isSingleOrderArg) {
     const args = arg.inputType.map((t) => {
       if (isInputArgType(t.type)) {
-        if (typeof value !== 'object') {
+        // engines, which can't order by multiple fields, expect a single sort spec
+        const isOrderList = t.type.isOrderType && Array.isArray(value)
+        if (typeof value !== 'object' || isOrderList) {
           return getInvalidTypeArg(key, value, arg, t)
         } else {
           let val = cleanObject(value)
@@ -1522,16 +1652,38 @@ function valueToArg(key: string, value: any, arg: DMMF.SchemaArg): Arg | null {
   }
 
   const inputType = argInputType.type as DMMF.InputType
+  if (inputType.isOrderType) {
+    value = value.map((v) =>
+      v && typeof v === 'object'
+        ? filterObject(v, (k, val) => val !== null)
+        : v,
+    )
+  }
   const hasAtLeastOneError = inputType.atLeastOne
     ? value.some((v) => !v || Object.keys(cleanObject(v)).length === 0)
     : false
-  const err: AtLeastOneError | undefined = hasAtLeastOneError
-    ? {
-        inputType,
-        key,
-        type: 'atLeastOne',
-      }
+  const tooManyKeys: string[] | undefined = inputType.atMostOne
+    ? value
+        .map((v) =>
+          v && typeof v === 'object' ? Object.keys(cleanObject(v)) : [],
+        )
+        .find((keys) => keys.length > 1)
     : undefined
+  let err: AtLeastOneError | AtMostOneError | undefined
+  if (hasAtLeastOneError) {
+    err = {
+      inputType,
+      key,
+      type: 'atLeastOne',
+    }
+  } else if (tooManyKeys) {
+    err = {
+      inputType,
+      key,
+      type: 'atMostOne',
+      providedKeys: tooManyKeys,
+    }
+  }
   return new Arg({
     key,
     value: value.map((v) => {
@@ -1687,7 +1839,10 @@ export function unpack({ document, path, data }: UnpackOptions): any {
   const field = getField(document, path)
 
   const mappedData = mapDates({ field, data: result })
-  return mapJson({ field, data: mappedData })
+  return mapJson({
+    field,
+    data: mapBigIntsAndDecimals({ field, data: mappedData }),
+  })
 }
 
 export interface MapDatesOptions {
@@ -1740,6 +1895,91 @@ export function mapDates({ field, data }: MapDatesOptions): any {
   return data
 }
 
+const scalarMappers = {
+  Long: (value: string | number) => BigInt(value),
+  Decimal: (value: string | number) => new Decimal(value),
+}
+
+/**
+ * Maps Long fields to a `bigint` and Decimal fields to a `Decimal` inplace.
+ * Their numbers are kept as strings when the response of the engine is parsed,
+ * see `getExactNumberPaths`, so they don't lose precision as a JS number.
+ */
+export function mapBigIntsAndDecimals({ field, data }: MapDatesOptions): any {
+  if (
+    !data ||
+    typeof data !== 'object' ||
+    !field.children ||
+    !field.schemaField
+  ) {
+    return data
+  }
+
+  const mapField = (
+    entry: any,
+    name: string,
+    mapper: (value: string | number) => any,
+  ) => {
+    const value = entry[name]
+    // like for dates, ignore fields that are missing in the result
+    if (value === null || typeof value === 'undefined') {
+      return
+    }
+    entry[name] = Array.isArray(value)
+      ? value.map((v) => mapper(v))
+      : mapper(value)
+  }
+
+  for (const child of field.children) {
+    const type = child.schemaField?.outputType.type
+    const mapper = typeof type === 'string' ? scalarMappers[type] : undefined
+    if (mapper) {
+      if (Array.isArray(data)) {
+        for (const entry of data) {
+          mapField(entry, child.name, mapper)
+        }
+      } else {
+        mapField(data, child.name, mapper)
+      }
+    }
+
+    if (child.schemaField && child.schemaField.outputType.kind === 'object') {
+      if (Array.isArray(data)) {
+        data.forEach((entry) =>
+          mapBigIntsAndDecimals({ field: child, data: entry[child.name] }),
+        )
+      } else {
+        mapBigIntsAndDecimals({ field: child, data: data[child.name] })
+      }
+    }
+  }
+
+  return data
+}
+
+/**
+ * The paths of the Long and Decimal fields of the document like
+ * `findManyAccount.balance`, whose numbers the engine client keeps as strings
+ */
+export function getExactNumberPaths(document: Document): string[] {
+  const paths: string[] = []
+  const addPaths = (fields: Field[], parentPath?: string) => {
+    for (const field of fields) {
+      const path = parentPath ? `${parentPath}.${field.name}` : field.name
+      const type = field.schemaField?.outputType.type
+      if (typeof type === 'string' && scalarMappers[type]) {
+        paths.push(path)
+      }
+      if (field.children) {
+        addPaths(field.children, path)
+      }
+    }
+  }
+  addPaths(document.children)
+
+  return paths
+}
+
 export function mapJson({ field, data }: MapDatesOptions): any {
   if (
     !data ||
@@ -0,0 +1,172 @@
+import { DMMFClass } from './dmmf'
+import { DMMF } from './dmmf-types'
+import { Document, Field, makeDocument, transformDocument } from './query'
+import { flatMap } from './utils/flatMap'
+
+/**
+ * Describes a virtual `_count` selection, which the engine can't resolve,
+ * like `prisma.user.findMany({ select: { _count: { select: { posts: true } } } })`.
+ * The counts are requested with one aggregation per record and relation.
+ */
+export interface RelationCountInfo {
+  /**
+   * Path of the counted records in the response, e.g. `['findManyUser', 'posts']`
+   */
+  path: string[]
+  model: string
+  relations: string[]
+  idField: string
+  addedIdField: boolean
+}
+
+/**
+ * Removes the virtual `_count` fields from the document, so that it can be sent to the engine.
+ * The id of the counted records is selected, so that their relations can be counted.
+ */
+export function extractRelationCounts(
+  document: Document,
+  dmmf: DMMFClass,
+): { document: Document; infos: RelationCountInfo[] } {
+  const infos: RelationCountInfo[] = []
+  const children = document.children.map((field) =>
+    removeCountFields(field, [field.name], dmmf, infos),
+  )
+
+  if (infos.length === 0) {
+    return { document, infos }
+  }
+
+  return { document: new Document(document.type, children), infos }
+}
+
+function removeCountFields(
+  field: Field,
+  path: string[],
+  dmmf: DMMFClass,
+  infos: RelationCountInfo[],
+): Field {
+  if (!field.children) {
+    return field
+  }
+
+  let children = field.children.map((child) =>
+    removeCountFields(child, [...path, child.name], dmmf, infos),
+  )
+  const countField = children.find(
+    (child) => child.name === '_count' && child.schemaField?.isVirtual,
+  )
+
+  if (countField) {
+    const outputType = field.schemaField!.outputType.type as DMMF.OutputType
+    const model = dmmf.modelMap[outputType.name]
+    const idField = getIdField(model)
+    const addedIdField = !children.some((child) => child.name === idField)
+
+    children = children.filter((child) => child !== countField)
+    if (addedIdField) {
+      children.push(
+        new Field({
+          name: idField,
+          schemaField: outputType.fields.find((f) => f.name === idField),
+        }),
+      )
+    }
+
+    infos.push({
+      path,
+      model: model.name,
+      relations: (countField.children ?? []).map((child) => child.name),
+      idField,
+      addedIdField,
+    })
+  }
+
+  if (
+    children.length === field.children.length &&
+    children.every((child, index) => child === field.children![index])
+  ) {
+    return field
+  }
+
+  return new Field({
+    name: field.name,
+    args: field.args,
+    children,
+    error: field.error,
+    schemaField: field.schemaField,
+  })
+}
+
+function getIdField(model: DMMF.Model): string {
+  const idField =
+    model.fields.find((f) => f.isId) ??
+    model.fields.find((f) => f.kind === 'scalar' && f.isUnique)
+
+  if (!idField) {
+    throw new Error(
+      `The relations of ${model.name} can't be counted, as it has no @id or @unique field`,
+    )
+  }
+
+  return idField.name
+}
+
+/**
+ * Creates the aggregation, which counts the related records of one record
+ */
+export function makeRelationCountDocument(
+  dmmf: DMMFClass,
+  info: RelationCountInfo,
+  relation: string,
+  id: string | number,
+): { document: Document; rootField: string } {
+  const model = dmmf.modelMap[info.model]
+  const field = model.fields.find((f) => f.name === relation)!
+  const relatedModel = dmmf.modelMap[field.type]
+  // for self relations both sides are fields of the same model
+  const backRelation = relatedModel.fields.find(
+    (f) =>
+      f.kind === 'object' &&
+      f.relationName === field.relationName &&
+      f !== field,
+  )
+  if (!backRelation) {
+    throw new Error(
+      `Can't count ${model.name}.${relation}, as ${relatedModel.name} has no relation field back to ${model.name}`,
+    )
+  }
+
+  const where = {
+    [backRelation.name]: backRelation.isList
+      ? { some: { [info.idField]: id } }
+      : { [info.idField]: id },
+  }
+  const rootField = dmmf.mappings.find((m) => m.model === relatedModel.name)!
+    .aggregate!
+  const document = makeDocument({
+    dmmf,
+    rootTypeName: 'query',
+    rootField,
+    select: { select: { count: { where } } },
+  })
+
+  return { document: transformDocument(document), rootField }
+}
+
+/**
+ * Collects the records at the path of a response, e.g. all posts of all users
+ */
+export function getRelationCountRecords(data: any, path: string[]): any[] {
+  return path.reduce<any[]>(
+    (records, key) =>
+      flatMap(records, (record) => {
+        const value = record[key]
+        if (value === null || value === undefined) {
+          return []
+        }
+
+        return Array.isArray(value) ? value : [value]
+      }),
+    [data],
+  )
+}
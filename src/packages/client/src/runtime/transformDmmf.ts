@@ -1,8 +1,23 @@
 import { DMMF } from './dmmf-types'
-import { Dictionary, uniqBy } from './utils/common'
+import { capitalize, Dictionary, uniqBy } from './utils/common'
+import { ConnectorType } from './utils/printDatasources'
 
-export function transformDmmf(document: DMMF.Document): DMMF.Document {
-  const doc = transformOrderInputTypes(transformWhereInputTypes(document))
+/**
+ * @param connectorType the connector of the datasource, if known.
+ * String filter modes, which the connector or the engine don't support, are left out.
+ */
+export function transformDmmf(
+  document: DMMF.Document,
+  connectorType?: ConnectorType,
+): DMMF.Document {
+  const doc = transformCountOutputTypes(
+    transformOrderInputTypes(
+      transformWhereInputTypes(
+        document,
+        getFilterModes(document, connectorType),
+      ),
+    ),
+  )
   return {
     datamodel: doc.datamodel,
     mappings: doc.mappings,
@@ -39,6 +54,8 @@ function transformOrderInputTypes(document: DMMF.Document): DMMF.Document {
       enums.push(type)
       continue
     }
+    const modelName = type.name.slice(0, type.name.lastIndexOf('OrderByInput'))
+    const model = document.datamodel.models.find((m) => m.name === modelName)
     const argNames = type.values.reduce<string[]>((acc, curr) => {
       if (curr.endsWith('ASC')) {
         const index = curr.lastIndexOf('_ASC')
@@ -46,24 +63,24 @@ function transformOrderInputTypes(document: DMMF.Document): DMMF.Document {
       }
       return acc
     }, [])
+    const relationArgs = model
+      ? getRelationOrderArgs(model, argNames, inputTypes)
+      : []
     const inputType: DMMF.InputType = {
       name: type.name,
       atLeastOne: true,
       atMostOne: true,
       isOrderType: true,
-      fields: argNames.map((name) => ({
-        name,
-        inputType: [
-          {
-            type: 'OrderByArg',
-            isList: false,
-            isRequired: false,
-            isNullable: true,
-            kind: 'enum',
-          },
-        ],
-        isRelationFilter: false,
-      })),
+      fields: [
+        ...getOrderArgs(
+          argNames.filter(
+            (name) =>
+              !relationArgs.some((arg) => name.startsWith(`${arg.name}_`)) ||
+              model?.fields.some((f) => f.name === name),
+          ),
+        ),
+        ...relationArgs,
+      ],
     }
     inputTypes.push(inputType)
   }
@@ -79,6 +96,139 @@ function transformOrderInputTypes(document: DMMF.Document): DMMF.Document {
   }
 }
 
+function getOrderArgs(argNames: string[]): DMMF.SchemaArg[] {
+  return argNames.map((name) => ({
+    name,
+    inputType: [
+      {
+        type: 'OrderByArg',
+        isList: false,
+        isRequired: false,
+        isNullable: true,
+        kind: 'enum',
+      },
+    ],
+    isRelationFilter: false,
+  }))
+}
+
+/**
+ * Engines, which can order by relations, expose their sort specs flat,
+ * e.g. `author_name_ASC` or `posts_count_DESC`. They are nested by relation,
+ * so they can be provided as `{ author: { name: 'asc' } }` or `{ posts: { count: 'desc' } }`.
+ */
+function getRelationOrderArgs(
+  model: DMMF.Model,
+  argNames: string[],
+  inputTypes: DMMF.InputType[],
+): DMMF.SchemaArg[] {
+  const args: DMMF.SchemaArg[] = []
+  for (const field of model.fields) {
+    if (field.kind !== 'object') {
+      continue
+    }
+
+    const prefix = `${field.name}_`
+    const nestedArgNames = argNames
+      .filter(
+        (name) =>
+          name.startsWith(prefix) && !model.fields.some((f) => f.name === name),
+      )
+      .map((name) => name.slice(prefix.length))
+    if (nestedArgNames.length === 0) {
+      continue
+    }
+
+    const type = getRelationOrderInputName(model.name, field.name)
+    if (!inputTypes.some((t) => t.name === type)) {
+      inputTypes.push({
+        name: type,
+        atLeastOne: true,
+        atMostOne: true,
+        isOrderType: true,
+        fields: getOrderArgs(nestedArgNames),
+      })
+    }
+
+    args.push({
+      name: field.name,
+      inputType: [
+        {
+          type,
+          isList: false,
+          isRequired: false,
+          isNullable: true,
+          kind: 'object',
+        },
+      ],
+      isRelationFilter: false,
+    })
+  }
+
+  return args
+}
+
+function getRelationOrderInputName(modelName: string, fieldName: string) {
+  return `${modelName}OrderBy${capitalize(fieldName)}Input`
+}
+
+/**
+ * Adds a virtual `_count` field to the models with relation lists,
+ * so the number of related records can be selected like a relation
+ */
+function transformCountOutputTypes(document: DMMF.Document): DMMF.Document {
+  const outputTypes: DMMF.OutputType[] = [...document.schema.outputTypes]
+  for (const model of document.datamodel.models) {
+    const relationLists = model.fields.filter(
+      (f) => f.kind === 'object' && f.isList,
+    )
+    const outputType = outputTypes.find((t) => t.name === model.name)
+    // newer engines resolve `_count` themselves
+    if (
+      relationLists.length === 0 ||
+      !outputType ||
+      outputType.fields.some((f) => f.name === '_count')
+    ) {
+      continue
+    }
+
+    const countType: DMMF.OutputType = {
+      name: `${model.name}CountOutputType`,
+      fields: relationLists.map((f) => ({
+        name: f.name,
+        args: [],
+        outputType: {
+          type: 'Int',
+          isList: false,
+          isRequired: true,
+          kind: 'scalar',
+        },
+      })),
+    }
+    outputTypes.push(countType)
+    outputType.fields.push({
+      name: '_count',
+      args: [],
+      isVirtual: true,
+      outputType: {
+        type: countType.name,
+        isList: false,
+        isRequired: true,
+        kind: 'object',
+      },
+    })
+  }
+
+  return {
+    datamodel: document.datamodel,
+    mappings: document.mappings,
+    schema: {
+      ...document.schema,
+      outputTypes,
+    },
+  }
+}
+
 function makeWhereUniqueInputsRequired(
   inputTypes: DMMF.InputType[],
 ): DMMF.InputType[] {
@@ -105,10 +255,65 @@ function getFieldType(field: DMMF.Field): string {
   return field.type
 }
 
-function transformWhereInputTypes(document: DMMF.Document): DMMF.Document {
+interface FilterModes {
+  insensitive: boolean
+  search: boolean
+}
+
+// postgres supports ILIKE and to_tsvector, mysql MATCH and sqlite falls back to FTS
+const insensitiveConnectors: ConnectorType[] = ['postgresql', 'mongo']
+const searchConnectors: ConnectorType[] = ['postgresql', 'mysql', 'sqlite']
+
+function getFilterModes(
+  document: DMMF.Document,
+  connectorType?: ConnectorType,
+): FilterModes {
+  const isString = (f: DMMF.Field) => f.type === 'String'
+  const supports = (connectors: ConnectorType[]) =>
+    !connectorType || connectors.includes(connectorType)
+
+  return {
+    insensitive:
+      supports(insensitiveConnectors) &&
+      exposesFilter(document, isString, 'mode'),
+    search:
+      supports(searchConnectors) && exposesFilter(document, isString, 'search'),
+  }
+}
+
+/**
+ * Filters, which not every engine supports, are only generated,
+ * if the engine exposes them for a field, e.g. `title_mode` or `posts_count`
+ */
+function exposesFilter(
+  document: DMMF.Document,
+  isFiltered: (field: DMMF.Field) => boolean,
+  filter: string,
+): boolean {
+  return document.datamodel.models.some((model) => {
+    const whereInput = document.schema.inputTypes.find(
+      (t) => t.name === getWhereInputName(model.name),
+    )
+    return model.fields.some(
+      (f) =>
+        isFiltered(f) &&
+        whereInput?.fields.some((a) => a.name === `${f.name}_${filter}`),
+    )
+  })
+}
+
+function transformWhereInputTypes(
+  document: DMMF.Document,
+  filterModes: FilterModes,
+): DMMF.Document {
   const types = document.schema.inputTypes
   const inputTypes: DMMF.InputType[] = []
   const filterTypes: Dictionary<DMMF.InputType> = {}
+  const relationCountFilters = exposesFilter(
+    document,
+    (f) => f.kind === 'object' && f.isList,
+    'count',
+  )
   for (const type of types) {
     if (!type.name.endsWith('WhereInput')) {
       inputTypes.push(type)
@@ -156,6 +361,22 @@ function transformWhereInputTypes(document: DMMF.Document): DMMF.Document {
             f.isRequired,
             f.kind !== 'object',
             f.kind === 'enum',
+            filterModes,
+            relationCountFilters,
+          )
+        }
+        // the count filter of relation lists reuses the filter of Int fields
+        if (
+          f.kind === 'object' &&
+          relationCountFilters &&
+          !filterTypes[getFilterName('Int', true)]
+        ) {
+          filterTypes[getFilterName('Int', true)] = makeFilterType(
+            'Int',
+            true,
+            true,
+            false,
+            filterModes,
           )
         }
 
@@ -216,12 +437,21 @@ function transformWhereInputTypes(document: DMMF.Document): DMMF.Document {
   const scalarFilters = Object.values(filterTypes)
   inputTypes.push(...scalarFilters)
 
+  const enums = [...document.schema.enums]
+  if (filterModes.insensitive && !enums.some((e) => e.name === 'QueryMode')) {
+    enums.push({
+      name: 'QueryMode',
+      values: ['default', 'insensitive'],
+    })
+  }
+
   return {
     datamodel: document.datamodel,
     mappings: document.mappings,
     schema: {
       ...document.schema,
       inputTypes,
+      enums,
     },
   }
 }
@@ -239,26 +469,59 @@ function makeFilterType(
   isRequired: boolean,
   isScalar: boolean,
   isEnum: boolean,
+  filterModes: FilterModes,
+  relationCountFilters = false,
 ): DMMF.InputType {
   const name = getFilterName(type, isRequired || !isScalar)
   const isNullable = !isRequired && isScalar
   return {
     name,
     fields: isScalar
-      ? getScalarFilterArgs(type, isRequired, isEnum, isNullable)
-      : getRelationFilterArgs(type),
+      ? getScalarFilterArgs(type, isRequired, isEnum, isNullable, filterModes)
+      : getRelationFilterArgs(type, relationCountFilters),
     atLeastOne: false,
   }
 }
 
-function getRelationFilterArgs(type: string): DMMF.SchemaArg[] {
-  return getScalarArgs(
+function getRelationFilterArgs(
+  type: string,
+  relationCountFilters: boolean,
+): DMMF.SchemaArg[] {
+  const args = getScalarArgs(
     ['every', 'some', 'none'],
     [getWhereInputName(type)],
     undefined,
     'object',
     false, // relation filters can't be null
   )
+  if (relationCountFilters) {
+    args.push(getRelationCountFilterArg())
+  }
+  return args
+}
+
+function getRelationCountFilterArg(): DMMF.SchemaArg {
+  return {
+    name: 'count',
+    isRelationFilter: false,
+    isRelationCountFilter: true,
+    inputType: [
+      {
+        type: 'Int',
+        isList: false,
+        isRequired: false,
+        isNullable: false,
+        kind: 'scalar',
+      },
+      {
+        type: getFilterName('Int', true),
+        isList: false,
+        isRequired: false,
+        isNullable: false,
+        kind: 'object',
+      },
+    ],
+  }
 }
 
 function getScalarFilterArgs(
@@ -266,6 +529,7 @@ function getScalarFilterArgs(
   isRequired: boolean,
   isEnum = false,
   isNullable: boolean,
+  filterModes: FilterModes,
 ): DMMF.SchemaArg[] {
   if (isEnum) {
     return [
@@ -275,6 +539,13 @@ function getScalarFilterArgs(
   }
   switch (type) {
     case 'String':
+      return [
+        ...getBaseFilters(type, isRequired, isEnum, isNullable),
+        ...getInclusionFilters(type, isEnum, isNullable),
+        ...getAlphanumericFilters(type, isEnum, isNullable),
+        ...getStringFilters(type, isEnum, isNullable),
+        ...getStringModeFilters(type, filterModes),
+      ]
     case 'ID':
     case 'UUID':
       return [
@@ -285,6 +556,8 @@ function getScalarFilterArgs(
       ]
     case 'Int':
     case 'Float':
+    case 'Long':
+    case 'Decimal':
     case 'DateTime':
       return [
         ...getBaseFilters(type, isRequired, isEnum, isNullable),
@@ -339,6 +612,24 @@ function getStringFilters(
   )
 }
 
+/**
+ * `mode: 'insensitive'` applies to all filters of the field, e.g.
+ * `{ title: { contains: 'prisma', mode: 'insensitive' } }`
+ */
+function getStringModeFilters(
+  type: string,
+  filterModes: FilterModes,
+): DMMF.SchemaArg[] {
+  return [
+    ...(filterModes.insensitive
+      ? getScalarArgs(['mode'], ['QueryMode'], undefined, 'enum', false)
+      : []),
+    ...(filterModes.search
+      ? getScalarArgs(['search'], [type], undefined, 'scalar', false)
+      : []),
+  ]
+}
+
 function getAlphanumericFilters(
   type: string,
   isEnum: boolean,
@@ -2,6 +2,7 @@ import chalk from 'chalk'
 import indent from 'indent-string'
 import leven from 'js-levenshtein'
 import { DMMF } from '../dmmf-types'
+import { Decimal } from './decimal'
 
 export interface Dictionary<T> {
   [key: string]: T
@@ -23,6 +24,7 @@ export const ScalarTypeTable = {
   Float: true,
   Boolean: true,
   Long: true,
+  Decimal: true,
   DateTime: true,
   ID: true,
   UUID: true,
@@ -41,7 +43,8 @@ export const GraphQLScalarToJSTypeTable = {
   Int: 'number',
   Float: 'number',
   Boolean: 'boolean',
-  Long: 'number',
+  Long: ['bigint', 'number'],
+  Decimal: ['Decimal', 'number', 'string'],
   DateTime: ['Date', 'string'],
   ID: 'string',
   UUID: 'string',
@@ -52,6 +55,7 @@ export const JSTypeToGraphQLType = {
   string: 'String',
   boolean: 'Boolean',
   object: 'Json',
+  bigint: 'Long',
 }
 
 export function stringifyGraphQLType(
@@ -105,6 +109,9 @@ export function getGraphQLType(
   if (Object.prototype.toString.call(value) === '[object Date]') {
     return 'DateTime'
   }
+  if (Decimal.isDecimal(value)) {
+    return 'Decimal'
+  }
   if (jsType === 'string') {
     if (
       /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(
@@ -0,0 +1,142 @@
+const decimalRegex = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i
+
+/**
+ * Arbitrary precision decimal, used for `Decimal` fields like money columns.
+ * The value is kept as a string, so it never passes through a float.
+ */
+export class Decimal {
+  private readonly value: string
+  constructor(value: Decimal | string | number | bigint) {
+    const str = String(value).trim()
+    if (!decimalRegex.test(str)) {
+      throw new Error(`Invalid value ${JSON.stringify(str)} for Decimal`)
+    }
+
+    this.value = normalize(str)
+  }
+  static isDecimal(value: any): value is Decimal {
+    return value instanceof Decimal
+  }
+  /**
+   * Checks, if the number or string can be turned into a Decimal
+   */
+  static isValid(value: string | number): boolean {
+    return decimalRegex.test(String(value).trim())
+  }
+  equals(other: Decimal | string | number | bigint): boolean {
+    return this.value === new Decimal(other).value
+  }
+  /**
+   * Returns a negative number, if this value is smaller than the other one,
+   * a positive one, if it's greater and 0, if they are equal
+   */
+  comparedTo(other: Decimal | string | number | bigint): number {
+    const [a, b] = toCommonScale(this, new Decimal(other))
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+  plus(other: Decimal | string | number | bigint): Decimal {
+    const [a, b, scale] = toCommonScale(this, new Decimal(other))
+    return fromScaled(a + b, scale)
+  }
+  /**
+   * Divides up to 20 fraction digits, the last one is rounded half away from zero
+   */
+  dividedBy(divisor: Decimal | string | number | bigint): Decimal {
+    const [a, b] = toCommonScale(this, new Decimal(divisor))
+    if (b === zero) {
+      throw new Error(`Division of Decimal ${this.value} by zero`)
+    }
+
+    const numerator = a * pow10(divisionScale)
+    let quotient = numerator / b
+    const remainder = numerator % b
+    if (abs(remainder) * BigInt(2) >= abs(b)) {
+      quotient += numerator < zero !== b < zero ? BigInt(-1) : BigInt(1)
+    }
+
+    return fromScaled(quotient, divisionScale)
+  }
+  toNumber(): number {
+    return Number(this.value)
+  }
+  toString(): string {
+    return this.value
+  }
+  toJSON(): string {
+    return this.value
+  }
+}
+
+/**
+ * Turns the value into plain notation without a leading `+`,
+ * leading zeros in the integer part or trailing zeros in the fraction
+ */
+function normalize(str: string): string {
+  const [signedMantissa, exponent = '0'] = str.toLowerCase().split('e')
+  const sign = signedMantissa[0] === '-' ? '-' : ''
+  const mantissa = signedMantissa.replace(/^[+-]/, '')
+
+  let [integer, fraction = ''] = mantissa.split('.')
+  const shift = parseInt(exponent, 10)
+  if (shift > 0) {
+    fraction = fraction.padEnd(shift, '0')
+    integer += fraction.slice(0, shift)
+    fraction = fraction.slice(shift)
+  } else if (shift < 0) {
+    integer = integer.padStart(-shift, '0')
+    fraction = integer.slice(integer.length + shift) + fraction
+    integer = integer.slice(0, integer.length + shift)
+  }
+
+  integer = integer.replace(/^0+/, '') || '0'
+  fraction = fraction.replace(/0+$/, '')
+
+  if (integer === '0' && fraction === '') {
+    return '0'
+  }
+
+  return `${sign}${integer}${fraction ? `.${fraction}` : ''}`
+}
+
+const zero = BigInt(0)
+const divisionScale = 20
+
+/**
+ * Turns both values into integers, which are scaled by the same power of 10
+ */
+function toCommonScale(a: Decimal, b: Decimal): [bigint, bigint, number] {
+  const [aInteger, aScale] = toScaled(a)
+  const [bInteger, bScale] = toScaled(b)
+  const scale = Math.max(aScale, bScale)
+
+  return [
+    aInteger * pow10(scale - aScale),
+    bInteger * pow10(scale - bScale),
+    scale,
+  ]
+}
+
+function toScaled(value: Decimal): [bigint, number] {
+  const [integer, fraction = ''] = value.toString().split('.')
+  return [BigInt(integer + fraction), fraction.length]
+}
+
+function fromScaled(value: bigint, scale: number): Decimal {
+  const sign = value < zero ? '-' : ''
+  const digits = abs(value)
+    .toString()
+    .padStart(scale + 1, '0')
+  const integerLength = digits.length - scale
+
+  return new Decimal(
+    `${sign}${digits.slice(0, integerLength)}.${digits.slice(integerLength)}`,
+  )
+}
+
+function pow10(exponent: number): bigint {
+  return BigInt(`1${'0'.repeat(exponent)}`)
+}
+
+function abs(value: bigint): bigint {
+  return value < zero ? -value : value
+}
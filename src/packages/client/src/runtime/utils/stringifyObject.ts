@@ -1,4 +1,5 @@
 'use strict'
+import { Decimal } from './decimal'
 const isRegexp = require('is-regexp')
 const isObj = require('is-obj')
 const getOwnEnumPropSymbols = require('get-own-enumerable-property-symbols').default
@@ -72,6 +73,14 @@ const stringifyObject = (input, options?: any, pad?: any) => {
       return `new Date('${input.toISOString()}')`
     }
 
+    if (typeof input === 'bigint') {
+      return `${input}n`
+    }
+
+    if (input instanceof Decimal) {
+      return `new Decimal('${input}')`
+    }
+
     if (Array.isArray(input)) {
       if (input.length === 0) {
         return '[]'
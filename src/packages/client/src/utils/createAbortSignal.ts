@@ -0,0 +1,22 @@
+import { AbortSignalLike } from '@prisma/engine-core'
+
+// Mostly used for tests, as Node 12 doesn't have an AbortController
+export function createAbortSignal(): {
+  signal: AbortSignalLike
+  abort: () => void
+} {
+  const listeners = new Set<() => void>()
+  const signal = {
+    aborted: false,
+    addEventListener: (_: 'abort', listener: () => void) =>
+      listeners.add(listener),
+    removeEventListener: (_: 'abort', listener: () => void) =>
+      listeners.delete(listener),
+  }
+  const abort = () => {
+    signal.aborted = true
+    listeners.forEach((listener) => listener())
+  }
+
+  return { signal, abort }
+}
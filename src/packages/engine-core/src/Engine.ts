@@ -74,6 +74,27 @@ export class PrismaClientInitializationError extends Error {
   }
 }
 
+/**
+ * Thrown, when a request to the query engine takes longer than its timeout
+ */
+export class PrismaClientTimeoutError extends Error {
+  timeout: number
+  constructor(message: string, timeout: number) {
+    super(message)
+    this.timeout = timeout
+  }
+}
+
+/**
+ * Thrown, when a request is cancelled with an `AbortSignal`
+ */
+export class AbortError extends Error {
+  name = 'AbortError'
+  constructor(message = 'The request was aborted') {
+    super(message)
+  }
+}
+
 export interface ErrorWithLinkInput {
   version: string
   platform: string
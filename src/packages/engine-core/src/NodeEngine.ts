@@ -6,6 +6,7 @@ import {
   PrismaClientRustPanicError,
   getMessage,
   getErrorMessageWithLink,
+  AbortError,
 } from './Engine'
 import debugLib from 'debug'
 import { getPlatform, Platform } from '@prisma/get-platform'
@@ -21,7 +22,7 @@ import EventEmitter from 'events'
 import { convertLog, RustLog, RustError } from './log'
 import { spawn, ChildProcessWithoutNullStreams } from 'child_process'
 import byline from './byline'
-import { H1Client } from './h1client'
+import { H1Client, AbortSignalLike } from './h1client'
 import pRetry from 'p-retry'
 
 const debug = debugLib('engine')
@@ -43,7 +44,7 @@ export interface EngineConfig {
   datasources?: DatasourceOverwrite[]
   showColors?: boolean
   logQueries?: boolean
-  logLevel?: 'info' | 'warn'
+  logLevel?: 'info' | 'warn' | 'error'
   env?: Record<string, string>
   flags?: string[]
   clientVersion?: string
@@ -69,6 +70,32 @@ const knownPlatforms: Platform[] = [
   'arm',
 ]
 
+export type TransactionAction = 'start' | 'commit' | 'rollback'
+
+export interface TransactionInfo {
+  id: string
+}
+
+export interface RequestOptions {
+  /**
+   * Id of the interactive transaction the query is executed in
+   */
+  transactionId?: string
+  /**
+   * Aborts the HTTP request to the engine, when the signal fires
+   */
+  signal?: AbortSignalLike
+  /**
+   * Time in milliseconds after which the request is aborted
+   */
+  timeout?: number
+  /**
+   * Paths of the Long and Decimal fields like `findManyAccount.balance`,
+   * whose numbers are returned as strings to keep their precision
+   */
+  exactNumberPaths?: string[]
+}
+
 export type Deferred = {
   resolve: () => void
   reject: (err: Error) => void
@@ -80,7 +107,7 @@ export class NodeEngine {
   private logEmitter: EventEmitter
   private showColors: boolean
   private logQueries: boolean
-  private logLevel?: 'info' | 'warn'
+  private logLevel?: 'info' | 'warn' | 'error'
   private env?: Record<string, string>
   private flags: string[]
   private port?: number
@@ -197,7 +224,16 @@ You may have to run ${chalk.greenBright(
     return process.cwd()
   }
 
-  on(event: 'query' | 'info' | 'warn', listener: (log: RustLog) => any): void {
+  on(event: 'query' | 'info' | 'warn', listener: (log: RustLog) => any): void
+  /**
+   * Error events are either error logs of the engine or the errors
+   * that happened during a request, like panics or known request errors
+   */
+  on(event: 'error', listener: (log: RustLog | Error) => any): void
+  on(
+    event: 'query' | 'info' | 'warn' | 'error',
+    listener: (log: any) => any,
+  ): void {
     this.logEmitter.on(event, listener)
   }
 
@@ -450,6 +486,10 @@ ${chalk.dim("In case we're mistaken, please report this to us 🙏.")}`)
           env.RUST_LOG = 'warn'
         }
 
+        if (this.logLevel === 'error') {
+          env.RUST_LOG = 'error'
+        }
+
         if (this.datasources) {
           env.OVERWRITE_DATASOURCES = this.printDatasources()
         }
@@ -725,7 +765,10 @@ ${this.lastErrorLog.fields.file}:${this.lastErrorLog.fields.line}:${this.lastErr
     })
   }
 
-  async request<T>(query: string): Promise<T> {
+  async request<T>(
+    query: string,
+    { transactionId, signal, timeout, exactNumberPaths }: RequestOptions = {},
+  ): Promise<T> {
     await this.start()
 
     if (!this.child) {
@@ -737,6 +780,12 @@ ${this.lastErrorLog.fields.file}:${this.lastErrorLog.fields.line}:${this.lastErr
     this.currentRequestPromise = this.h1Client.request(
       this.port,
       stringifyQuery(query),
+      {
+        headers: getTransactionHeaders(transactionId),
+        signal,
+        timeout,
+        exactNumberPaths,
+      },
     )
 
     return this.currentRequestPromise
@@ -760,7 +809,19 @@ ${this.lastErrorLog.fields.file}:${this.lastErrorLog.fields.line}:${this.lastErr
       .catch(this.handleRequestError)
   }
 
-  async requestBatch<T>(queries: string[]): Promise<T> {
+  /**
+   * Sends several queries in one request. If `transaction` is set, the
+   * engine executes them in a single database transaction.
+   */
+  async requestBatch<T>(
+    queries: string[],
+    transaction = false,
+    {
+      signal,
+      timeout,
+      exactNumberPaths,
+    }: Omit<RequestOptions, 'transactionId'> = {},
+  ): Promise<T> {
     await this.start()
 
     if (!this.child) {
@@ -772,11 +833,13 @@ ${this.lastErrorLog.fields.file}:${this.lastErrorLog.fields.line}:${this.lastErr
     const variables = {}
     const body = {
       batch: queries.map((query) => ({ query, variables })),
+      transaction,
     }
 
     this.currentRequestPromise = this.h1Client.request(
       this.port,
       JSON.stringify(body),
+      { signal, timeout, exactNumberPaths },
     )
 
     return this.currentRequestPromise
@@ -785,7 +848,9 @@ ${this.lastErrorLog.fields.file}:${this.lastErrorLog.fields.line}:${this.lastErr
         if (Array.isArray(data)) {
           return data.map((result) => {
             if (result.errors) {
-              return this.graphQLToJSError(result.errors[0])
+              const error = this.graphQLToJSError(result.errors[0])
+              this.logEmitter.emit('error', error)
+              return error
             }
             return {
               data: result,
@@ -802,8 +867,56 @@ ${this.lastErrorLog.fields.file}:${this.lastErrorLog.fields.line}:${this.lastErr
       .catch(this.handleRequestError)
   }
 
+  /**
+   * Starts, commits or rolls back an interactive transaction.
+   * Queries are pinned to a started transaction by passing its id to `request`
+   * as `transactionId`.
+   */
+  async transaction(action: 'start'): Promise<TransactionInfo>
+  async transaction(
+    action: 'commit' | 'rollback',
+    transactionId: string,
+  ): Promise<void>
+  async transaction(
+    action: TransactionAction,
+    transactionId?: string,
+  ): Promise<TransactionInfo | void> {
+    await this.start()
+
+    if (!this.child) {
+      throw new PrismaClientUnknownRequestError(
+        `Can't perform request, as the Engine has already been stopped`,
+      )
+    }
+
+    const path =
+      action === 'start'
+        ? '/transaction/start'
+        : `/transaction/${transactionId}/${action}`
+
+    this.currentRequestPromise = this.h1Client.request(this.port, '{}', {
+      path,
+    })
+
+    return this.currentRequestPromise
+      .then(({ data }) => {
+        if (data.errors) {
+          throw this.graphQLToJSError(data.errors[0])
+        }
+        if (action === 'start') {
+          return { id: data.id }
+        }
+      })
+      .catch(this.handleRequestError)
+  }
+
   private handleRequestError = (error: Error & { code?: string }) => {
     debug({ error })
+    // the caller cancelled the request, the engine itself is fine
+    if (error instanceof AbortError) {
+      throw error
+    }
+
     let err
     if (this.currentRequestPromise.isCanceled && this.lastError) {
       // TODO: Replace these errors with known or unknown request errors
@@ -913,6 +1026,8 @@ Please look into the logs or turn on the env var DEBUG=* to debug the constantly
       }
     }
 
+    this.logEmitter.emit('error', err ?? error)
+
     if (err) {
       throw err
     }
@@ -934,6 +1049,10 @@ Please look into the logs or turn on the env var DEBUG=* to debug the constantly
   }
 }
 
+function getTransactionHeaders(transactionId?: string) {
+  return transactionId ? { 'X-transaction-id': transactionId } : {}
+}
+
 // faster than creating a new object and JSON.stringify it all the time
 function stringifyQuery(q: string) {
   return `{"variables":{},"query":${JSON.stringify(q)}}`
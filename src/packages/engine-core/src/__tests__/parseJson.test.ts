@@ -0,0 +1,55 @@
+import { parseJson } from '../parseJson'
+
+test('keeps the numbers of the given paths as strings', () => {
+  expect(
+    parseJson(
+      '{"data":{"findManyAccount":[{"id":9007199254740993,"balance":-12345678901234567890.123456789,"owner":{"id":1}},{"id":2,"balance":0.1,"owner":null}]}}',
+      [
+        'findManyAccount.id',
+        'findManyAccount.balance',
+        'findManyAccount.owner.id',
+      ],
+    ),
+  ).toEqual({
+    data: {
+      findManyAccount: [
+        {
+          id: '9007199254740993',
+          balance: '-12345678901234567890.123456789',
+          owner: { id: '1' },
+        },
+        { id: '2', balance: '0.1', owner: null },
+      ],
+    },
+  })
+})
+
+test('keeps the numbers of list fields and batch results as strings', () => {
+  expect(
+    parseJson(
+      '{"batchResult":[{"data":{"findOneAccount":{"balances":[1.10, 2e3]}}}]}',
+      ['findOneAccount.balances'],
+    ),
+  ).toEqual({
+    batchResult: [{ data: { findOneAccount: { balances: ['1.10', '2e3'] } } }],
+  })
+})
+
+test('leaves other numbers and strings untouched', () => {
+  expect(
+    parseJson(
+      '{"data":{"findOneAccount":{"id":"9007199254740993","count":9007199254740993,"json":"{\\"id\\":9007199254740993}","e":"\\"}"}}}',
+      ['findOneAccount.id', 'findOneAccount.json.id'],
+    ),
+  ).toEqual({
+    data: {
+      findOneAccount: {
+        id: '9007199254740993',
+        count: 9007199254740992,
+        json: '{"id":9007199254740993}',
+        e: '"}',
+      },
+    },
+  })
+  expect(parseJson('{"a":9007199254740993}')).toEqual({ a: 9007199254740992 })
+})
@@ -0,0 +1,61 @@
+import path from 'path'
+import { NodeEngine } from '../NodeEngine'
+
+function createEngine(response: any) {
+  const engine = new NodeEngine({
+    cwd: __dirname,
+    datamodelPath: path.join(__dirname, 'datamodel.txt'),
+  })
+  const requests: any[] = []
+
+  // pretend the engine is running
+  Object.assign(engine, {
+    startPromise: Promise.resolve(),
+    child: {},
+    port: 4466,
+  })
+  engine.h1Client = {
+    request: (port, body, options) => {
+      requests.push({ port, body, ...options })
+      return Promise.resolve({
+        data: response,
+        headers: { 'x-elapsed': '1000' },
+      })
+    },
+  } as any
+
+  return { engine, requests }
+}
+
+test('start a transaction', async () => {
+  const { engine, requests } = createEngine({ id: 'tx-1' })
+
+  expect(await engine.transaction('start')).toEqual({ id: 'tx-1' })
+  expect(requests).toEqual([
+    { port: 4466, body: '{}', path: '/transaction/start' },
+  ])
+})
+
+test('commit and roll back a transaction', async () => {
+  const { engine, requests } = createEngine({})
+
+  await engine.transaction('commit', 'tx-1')
+  await engine.transaction('rollback', 'tx-2')
+  expect(requests.map((r) => r.path)).toEqual([
+    '/transaction/tx-1/commit',
+    '/transaction/tx-2/rollback',
+  ])
+})
+
+test('send the transaction id of a request as header', async () => {
+  const { engine, requests } = createEngine({ data: { findManyUser: [] } })
+
+  await engine.request('query { findManyUser { id } }', {
+    transactionId: 'tx-1',
+  })
+  await engine.request('query { findManyUser { id } }')
+  expect(requests.map((r) => r.headers)).toEqual([
+    { 'X-transaction-id': 'tx-1' },
+    {},
+  ])
+})
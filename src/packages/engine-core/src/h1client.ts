@@ -1,4 +1,33 @@
 import http from 'http'
+import { AbortError, PrismaClientTimeoutError } from './Engine'
+import { parseJson } from './parseJson'
+
+/**
+ * The subset of the `AbortSignal` interface, which is needed to cancel requests.
+ * Works with the native `AbortController` and polyfills like `abort-controller`.
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean
+  addEventListener(type: 'abort', listener: () => void): void
+  removeEventListener(type: 'abort', listener: () => void): void
+}
+
+export interface H1RequestOptions {
+  path?: string
+  headers?: http.OutgoingHttpHeaders
+  /**
+   * Aborts the request, when the signal fires
+   */
+  signal?: AbortSignalLike
+  /**
+   * Time in milliseconds after which the request is aborted
+   */
+  timeout?: number
+  /**
+   * Paths of the response, whose numbers are kept as strings, see `parseJson`
+   */
+  exactNumberPaths?: string[]
+}
 
 export class H1Client {
   agent: http.Agent
@@ -6,16 +35,45 @@ export class H1Client {
   constructor() {
     this.agent = new http.Agent({ keepAlive: true, maxSockets: 100 })
   }
-  request(port: number, body: string): Promise<any> {
+  request(
+    port: number,
+    body: string,
+    {
+      path = '/',
+      headers = {},
+      signal,
+      timeout,
+      exactNumberPaths,
+    }: H1RequestOptions = {},
+  ): Promise<any> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(new AbortError())
+      }
+
+      let timer: NodeJS.Timeout | undefined
+      const cleanup = () => {
+        if (timer) {
+          clearTimeout(timer)
+        }
+        signal?.removeEventListener('abort', onAbort)
+      }
+      const cancel = (error: Error) => {
+        cleanup()
+        req.destroy()
+        reject(error)
+      }
+      const onAbort = () => cancel(new AbortError())
+
       const req = http.request(
         {
           agent: this.agent,
           hostname: 'localhost',
-          path: '/',
+          path,
           method: 'POST',
           port,
           headers: {
+            ...headers,
             'Content-Type': 'application/json',
             'Content-Length': Buffer.byteLength(body),
           },
@@ -26,15 +84,37 @@ export class H1Client {
             chunks.push(chunk)
           })
           res.on('end', () => {
+            cleanup()
             resolve({
-              data: JSON.parse(Buffer.concat(chunks) as any),
+              data: parseJson(
+                Buffer.concat(chunks).toString(),
+                exactNumberPaths,
+              ),
               headers: res.headers,
             })
           })
         },
       )
 
-      req.on('error', reject)
+      req.on('error', (e) => {
+        cleanup()
+        reject(e)
+      })
+
+      signal?.addEventListener('abort', onAbort)
+      if (timeout) {
+        timer = setTimeout(
+          () =>
+            cancel(
+              new PrismaClientTimeoutError(
+                `The query engine didn't respond within ${timeout}ms`,
+                timeout,
+              ),
+            ),
+          timeout,
+        )
+      }
+
       req.write(body)
       req.end()
     })
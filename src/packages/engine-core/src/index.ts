@@ -3,7 +3,10 @@ export {
   PrismaClientUnknownRequestError,
   PrismaClientInitializationError,
   PrismaClientRustPanicError,
+  PrismaClientTimeoutError,
+  AbortError,
 } from './Engine'
+export type { AbortSignalLike } from './h1client'
 export { NodeEngine as Engine } from './NodeEngine'
 export { getInternalDatamodelJson } from './getInternalDatamodelJson'
 export { printGeneratorConfig } from './printGeneratorConfig'
@@ -0,0 +1,76 @@
+/**
+ * Parses JSON like `JSON.parse`, but keeps the numbers of the given paths as strings,
+ * as they would lose precision as a JS number.
+ * A path like `findManyAccount.balance` consists of the keys of the enclosing objects
+ * and matches at the end of the full path, e.g. `data.findManyAccount.balance`.
+ * That way the 64-bit integers and decimals of the engine can be turned into a
+ * `bigint` or `Decimal` by the client, while other numbers like the ones in the
+ * values of Json fields are parsed as usual.
+ */
+export function parseJson(text: string, exactNumberPaths: string[] = []): any {
+  if (exactNumberPaths.length === 0) {
+    return JSON.parse(text)
+  }
+
+  return JSON.parse(quoteNumbers(text, exactNumberPaths))
+}
+
+interface Container {
+  isArray: boolean
+  // the key of the current value of an object
+  key?: string
+  expectsKey: boolean
+}
+
+function quoteNumbers(text: string, paths: string[]): string {
+  let result = ''
+  // the position up to which the text has been copied to the result
+  let copied = 0
+  const containers: Container[] = []
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    const container = containers[containers.length - 1]
+
+    if (char === '"') {
+      let end = i + 1
+      while (text[end] !== '"') {
+        end += text[end] === '\\' ? 2 : 1
+      }
+
+      if (container && !container.isArray && container.expectsKey) {
+        container.key = JSON.parse(text.slice(i, end + 1))
+        container.expectsKey = false
+      }
+      i = end
+    } else if (char === '{' || char === '[') {
+      containers.push({ isArray: char === '[', expectsKey: char === '{' })
+    } else if (char === '}' || char === ']') {
+      containers.pop()
+    } else if (char === ',' && container && !container.isArray) {
+      container.expectsKey = true
+    } else if (char === '-' || (char >= '0' && char <= '9')) {
+      let end = i + 1
+      while (end < text.length && /[\d.eE+-]/.test(text[end])) {
+        end++
+      }
+
+      if (matchesPath(containers, paths)) {
+        result += `${text.slice(copied, i)}"${text.slice(i, end)}"`
+        copied = end
+      }
+      i = end - 1
+    }
+  }
+
+  return result + text.slice(copied)
+}
+
+function matchesPath(containers: Container[], paths: string[]): boolean {
+  const path = containers
+    .filter((c) => !c.isArray)
+    .map((c) => c.key)
+    .join('.')
+
+  return paths.some((p) => path === p || path.endsWith(`.${p}`))
+}
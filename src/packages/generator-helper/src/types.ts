@@ -34,6 +34,7 @@ export namespace DMMF {
     dbName: string | null
     fields: Field[]
     idFields: string[]
+    uniqueFields?: string[][]
   }
 
   export type FieldKind = 'scalar' | 'object' | 'enum'
@@ -52,6 +53,13 @@ export namespace DMMF {
     relationToFields?: any[]
     relationOnDelete?: string
     relationName?: string
+    default?: FieldDefault | string | boolean
+  }
+
+  export interface FieldDefault {
+    name: string
+    returnType: string
+    args: any[]
   }
 
   export interface Schema {
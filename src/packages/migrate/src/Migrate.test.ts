@@ -7,8 +7,10 @@ import { dirname, join } from 'path'
 import pkgup from 'pkg-up'
 import dedent from 'strip-indent'
 import { Migrate } from './Migrate'
+import { MigrateReset } from './commands/MigrateReset'
 
 const writeFile = promisify(fs.writeFile)
+const readFile = promisify(fs.readFile)
 
 describe('migrate.create', () => {
   createTests().map((t) => {
@@ -24,6 +26,39 @@ describe('migrate.create', () => {
   })
 })
 
+describe('migrate reset', () => {
+  test('replaces the sqlite database', async () => {
+    const pkg = dirname((await pkgup({ cwd: __dirname })) || __filename)
+    const root = join(pkg, 'tmp', 'migrate-reset-' + Date.now())
+    await writeFiles(root, {
+      'schema.prisma': `
+        datasource my_db {
+          provider = "sqlite"
+          url = "file:./db/db_file.db"
+        }
+
+        model User {
+          id Int @id
+        }
+      `,
+      'db/db_file.db': 'not a sqlite database',
+    })
+
+    const result = await MigrateReset.new().parse([
+      '--experimental',
+      '--force',
+      '--skip-seed',
+      '--schema',
+      join(root, 'schema.prisma'),
+    ])
+    const db = await readFile(join(root, 'db', 'db_file.db'), 'utf-8')
+    await del(root)
+
+    expect(result).toEqual('All migrations are already applied')
+    expect(db).not.toContain('not a sqlite database')
+  })
+})
+
 // create a temporary set of files
 async function writeFiles(
   root: string,
@@ -1,7 +1,9 @@
 import {
   getSchemaPathSync,
   drawBox,
+  getDMMF,
   getGenerators,
+  IntrospectionEngine,
   ProviderAliases,
 } from '@prisma/sdk'
 import chalk from 'chalk'
@@ -28,6 +30,9 @@ import { DevComponentRenderer } from './ink/DevComponentRenderer'
 import { MigrateEngine } from './MigrateEngine'
 import { Studio } from './Studio'
 import {
+  DatabaseStep,
+  DatamodelStep,
+  Dictionary,
   EngineResults,
   FileMap,
   LocalMigration,
@@ -35,6 +40,7 @@ import {
   LockFile,
   Migration,
 } from './types'
+import { MigrateError, MigrateExitCode } from './utils/errors'
 import { exit } from './utils/exit'
 import { formatms } from './utils/formartms'
 import { groupBy } from './utils/groupBy'
@@ -49,12 +55,33 @@ import plusX from './utils/plusX'
 import {
   highlightMigrationsSQL,
   printDatabaseStepsOverview,
+  printSqlScript,
 } from './utils/printDatabaseSteps'
 import { printDatamodelDiff } from './utils/printDatamodelDiff'
 import { printMigrationReadme } from './utils/printMigrationReadme'
+import {
+  getMigrationJsonResult,
+  MigrationJsonResult,
+  printJsonResult,
+} from './utils/printJsonResult'
 import { serializeFileMap } from './utils/serializeFileMap'
 import { simpleDebounce } from './utils/simpleDebounce'
 import { flatMap } from './utils/flatMap'
+import { findMigrationIndex } from './utils/findMigration'
+import {
+  getChecksumMismatches,
+  getMigrationChecksum,
+} from './utils/migrationChecksum'
+import {
+  getConflictingChanges,
+  getLockFileConflict,
+} from './utils/lockFileConflict'
+import { DatamodelDiff, diffDatamodels } from './utils/diffDatamodels'
+import { collapseSquashedMigrations } from './utils/collapseSquashedMigrations'
+import {
+  getMigrationStatus,
+  MigrationStatusResult,
+} from './utils/getMigrationStatus'
 const debug = Debug('Migrate')
 const packageJson = eval(`require('../package.json')`) // tslint:disable-line
 
@@ -65,13 +92,38 @@ const exists = promisify(fs.exists)
 export interface UpOptions {
   preview?: boolean
   n?: number
+  /**
+   * Id, id prefix, timestamp or name of the last migration to apply
+   */
+  target?: string
   short?: boolean
   verbose?: boolean
   autoApprove?: boolean
+  /**
+   * Apply the migrations, even if they don't match the checksums in the migrate.lock file
+   */
+  force?: boolean
+  /**
+   * Don't print anything and return a JSON document instead
+   */
+  json?: boolean
   onWarnings?: (warnings: EngineResults.Warning[]) => Promise<boolean>
 }
 export interface DownOptions {
   n?: number
+  /**
+   * Id, id prefix, timestamp or name of the migration to go back to.
+   * All migrations applied after it are rolled back.
+   */
+  target?: string
+  /**
+   * Roll back the migrations, even if they don't match the checksums in the migrate.lock file
+   */
+  force?: boolean
+  /**
+   * Don't print anything and return a JSON document instead
+   */
+  json?: boolean
 }
 
 export interface WatchOptions {
@@ -84,6 +136,67 @@ export interface WatchOptions {
 interface MigrationFileMapOptions {
   migration: LocalMigrationWithDatabaseSteps
   lastMigration?: Migration
+  downDatabaseSteps?: DatabaseStep[]
+}
+
+export interface MigrationSql {
+  id: string
+  up?: string
+  down?: string
+}
+
+export interface SquashOptions {
+  /**
+   * Id, id prefix, timestamp or name of the first migration to squash
+   */
+  from: string
+  /**
+   * Id, id prefix, timestamp or name of the last migration to squash
+   */
+  to: string
+  name?: string
+}
+
+export interface SquashResult {
+  migrationId: string
+  files: FileMap
+  squashedMigrations: string[]
+  newLockFile: string
+}
+
+/**
+ * Where `migrate diff` reads a datamodel from
+ */
+export type DatamodelSource =
+  | { type: 'migrations' }
+  | { type: 'migration'; target: string }
+  | { type: 'schema' }
+  | { type: 'database' }
+
+export interface DiffResult {
+  from: string
+  to: string
+  diff: DatamodelDiff
+}
+
+export interface RebasedMigration {
+  /**
+   * The id of the migration before rebasing
+   */
+  from: string
+  to: string
+  files: FileMap
+}
+
+export interface ResolveResult {
+  localBranch?: string
+  remoteBranch?: string
+  rebased: RebasedMigration[]
+  /**
+   * Models and fields, which are changed on both branches
+   */
+  conflicts: string[]
+  newLockFile: string
 }
 const brightGreen = chalk.rgb(127, 224, 152)
 
@@ -91,6 +204,9 @@ export class Migrate {
   get devMigrationsDir(): string {
     return path.join(path.dirname(this.schemaPath), 'migrations/dev')
   }
+  get migrationsDir(): string {
+    return path.join(path.dirname(this.schemaPath), 'migrations')
+  }
   public engine: MigrateEngine
 
   // tslint:disable
@@ -298,25 +414,161 @@ export class Migrate {
   }
 
   public async getLockFile(): Promise<LockFile> {
-    const lockFilePath = path.resolve(
-      path.dirname(this.schemaPath),
-      'migrations',
-      'migrate.lock',
-    )
-    if (await exists(lockFilePath)) {
-      const file = await readFile(lockFilePath, 'utf-8')
-      const lockFile = deserializeLockFile(file)
-      if (lockFile.remoteBranch) {
+    const lockFile = await this.readLockFile()
+    if (lockFile.remoteBranch) {
+      throw new MigrateError(
+        `There's a merge conflict in the ${chalk.bold(
+          'migrations/migrate.lock',
+        )} file. Run ${chalk.greenBright(
+          'prisma migrate resolve --experimental',
+        )} to resolve it.`,
+        MigrateExitCode.LockFileConflict,
+      )
+    }
+    return lockFile
+  }
+
+  /**
+   * Rebases the migrations, which only exist on the local branch, on top of the
+   * migrations of the remote branch after a merge conflict in the migrate.lock file.
+   * Returns undefined, if there is no conflict.
+   */
+  public async resolve(): Promise<ResolveResult | undefined> {
+    const lockFile = await this.readLockFile()
+    if (!lockFile.remoteBranch) {
+      return undefined
+    }
+
+    const { common, local, remote } = getLockFileConflict(lockFile)
+    const localMigrations = await this.getLocalMigrations()
+    const getMigration = (id: string): LocalMigration => {
+      const migration = localMigrations.find((m) => m.id === id)
+      if (!migration) {
         throw new Error(
-          `There's a merge conflict in the ${chalk.bold(
+          `Migration ${chalk.bold(id)} is listed in ${chalk.bold(
             'migrations/migrate.lock',
-          )} file.`,
+          )}, but its folder is missing.`,
         )
       }
-      return lockFile
+      return migration
     }
 
-    return initLockFile()
+    const history = [...common, ...remote].map(getMigration)
+    const localOnly = local.map(getMigration)
+    const conflicts = getConflictingChanges(
+      flatMap(localOnly, (m) => m.datamodelSteps),
+      flatMap(remote.map(getMigration), (m) => m.datamodelSteps),
+    )
+
+    const sourceConfig = this.getSourceConfig()
+    const appliedIds = (
+      await this.engine.listAppliedMigrations({ sourceConfig })
+    ).map((m) => m.id)
+    const appliedLocalOnly = localOnly.filter((m) => appliedIds.includes(m.id))
+    if (appliedLocalOnly.length > 0) {
+      throw new Error(
+        `These migrations are already applied to your database:\n${appliedLocalOnly
+          .map((m) => `  • ${chalk.bold(m.id)}`)
+          .join('\n')}\n\nRoll them back with ${chalk.greenBright(
+          'prisma migrate down --experimental',
+        )} before resolving the conflict.`,
+      )
+    }
+
+    // the rebased migrations need new timestamps, so they're sorted after the remote ones
+    const startedAt = Date.now()
+    const rebased: RebasedMigration[] = []
+    for (const [index, migration] of localOnly.entries()) {
+      const id = `${now(
+        new Date(startedAt + index * 1000),
+      )}${migration.id.replace(/^\d+/, '')}`
+      const lastMigration = history[history.length - 1]
+      const pendingSteps = flatMap(
+        history.filter((m) => !appliedIds.includes(m.id)),
+        (m) => m.datamodelSteps,
+      )
+
+      let datamodel: string
+      try {
+        const result = await this.engine.calculateDatamodel({
+          steps: [
+            ...flatMap(history, (m) => m.datamodelSteps),
+            ...migration.datamodelSteps,
+          ],
+        })
+        datamodel = result.datamodel
+      } catch (e) {
+        const conflictStr =
+          conflicts.length > 0
+            ? `, as both branches change ${conflicts
+                .map((c) => chalk.bold(c))
+                .join(', ')}`
+            : ''
+        throw new Error(
+          `Migration ${chalk.bold(
+            migration.id,
+          )} can't be rebased on top of ${chalk.bold(
+            lockFile.remoteBranch,
+          )}${conflictStr}:\n${e.message}`,
+        )
+      }
+
+      const {
+        datamodelSteps,
+        databaseSteps,
+        warnings,
+      } = await this.engine.inferMigrationSteps({
+        sourceConfig,
+        datamodel,
+        migrationId: id,
+        assumeToBeApplied: pendingSteps,
+      })
+      const rebasedMigration = {
+        id,
+        datamodel,
+        datamodelSteps,
+        databaseSteps,
+        warnings,
+      }
+      const downDatabaseSteps = await this.inferDownDatabaseSteps(
+        rebasedMigration,
+        lastMigration,
+        pendingSteps,
+        sourceConfig,
+      )
+      const files = this.getMigrationFileMap({
+        migration: rebasedMigration,
+        lastMigration,
+        downDatabaseSteps,
+      })
+
+      rebased.push({ from: migration.id, to: id, files })
+      history.push({
+        ...rebasedMigration,
+        checksum: getMigrationChecksum(files),
+      })
+    }
+
+    const checksums: Dictionary<string> = {}
+    for (const migration of history) {
+      const checksum = lockFile.checksums[migration.id] || migration.checksum
+      if (checksum) {
+        checksums[migration.id] = checksum
+      }
+    }
+    const migrationIds = history.map((m) => m.id)
+
+    return {
+      localBranch: lockFile.localBranch,
+      remoteBranch: lockFile.remoteBranch,
+      rebased,
+      conflicts,
+      newLockFile: serializeLockFile({
+        localMigrations: migrationIds,
+        remoteMigrations: migrationIds,
+        checksums,
+      }),
+    }
   }
 
   public async createMigration(
@@ -366,6 +618,7 @@ export class Migrate {
     migration: LocalMigrationWithDatabaseSteps,
     name?: string,
     preview?: boolean,
+    silent?: boolean,
   ): Promise<{ files: FileMap; migrationId: string; newLockFile: string }> {
     const migrationId = this.getMigrationId(name)
     migration.id = migrationId
@@ -377,36 +630,77 @@ export class Migrate {
         ? localMigrations[localMigrations.length - 1]
         : undefined
 
-    // TODO better printing of params
-    const nameStr = name ? ` --name ${chalk.bold(name)}` : ''
-    const previewStr = preview ? ` --preview` : ''
-    console.log(`📼  migrate save${nameStr}${previewStr}`)
-    if (lastMigration) {
-      const wording = preview
-        ? `Potential datamodel changes:`
-        : 'Local datamodel Changes:'
-      console.log(chalk.bold(`\n${wording}\n`))
-    } else {
-      console.log(brightGreen.bold('\nNew datamodel:\n'))
-    }
-    if (lastMigration) {
-      console.log(printDatamodelDiff(lastMigration.datamodel, datamodel))
-    } else {
-      console.log(highlightDatamodel(datamodel))
+    if (!silent) {
+      // TODO better printing of params
+      const nameStr = name ? ` --name ${chalk.bold(name)}` : ''
+      const previewStr = preview ? ` --preview` : ''
+      console.log(`📼  migrate save${nameStr}${previewStr}`)
+      if (lastMigration) {
+        const wording = preview
+          ? `Potential datamodel changes:`
+          : 'Local datamodel Changes:'
+        console.log(chalk.bold(`\n${wording}\n`))
+      } else {
+        console.log(brightGreen.bold('\nNew datamodel:\n'))
+      }
+      if (lastMigration) {
+        console.log(printDatamodelDiff(lastMigration.datamodel, datamodel))
+      } else {
+        console.log(highlightDatamodel(datamodel))
+      }
     }
 
+    const downDatabaseSteps = await this.getDownDatabaseSteps(
+      migration,
+      lastMigration,
+    )
+    const files = this.getMigrationFileMap({
+      migration,
+      lastMigration,
+      downDatabaseSteps,
+    })
+
+    // lock files of v1 don't have checksums yet, so we add them on the fly
+    for (const localMigration of localMigrations) {
+      if (!lockFile.checksums[localMigration.id] && localMigration.checksum) {
+        lockFile.checksums[localMigration.id] = localMigration.checksum
+      }
+    }
     lockFile.localMigrations.push(migrationId)
+    lockFile.checksums[migrationId] = getMigrationChecksum(files)
     const newLockFile = serializeLockFile(lockFile)
 
     await del(this.devMigrationsDir)
 
     return {
       migrationId,
-      files: this.getMigrationFileMap({ migration, lastMigration }),
+      files,
       newLockFile,
     }
   }
 
+  /**
+   * Reads the SQL scripts of a local migration, without connecting to the database
+   */
+  public async getMigrationSql(target: string): Promise<MigrationSql> {
+    const localMigrations = await this.getLocalMigrations()
+    const { id } = localMigrations[findMigrationIndex(localMigrations, target)]
+    const migrationDir = path.join(this.migrationsDir, id)
+
+    const readScript = async (fileName: string) => {
+      const filePath = path.join(migrationDir, fileName)
+      return (await exists(filePath))
+        ? await readFile(filePath, 'utf-8')
+        : undefined
+    }
+
+    return {
+      id,
+      up: await readScript('up.sql'),
+      down: await readScript('down.sql'),
+    }
+  }
+
   public async getLocalWatchMigrations(): Promise<Migration[]> {
     return this.getLocalMigrations(this.devMigrationsDir)
   }
@@ -525,10 +819,13 @@ export class Migrate {
     return ''
   }
 
-  public async down({ n }: DownOptions): Promise<string> {
-    await this.getLockFile()
+  public async down({ n, target, force, json }: DownOptions): Promise<string> {
+    const lockFile = await this.getLockFile()
     const before = Date.now()
     const localMigrations = await this.getLocalMigrations()
+    if (!force) {
+      this.verifyChecksums(lockFile, localMigrations)
+    }
     const localWatchMigrations = await this.getLocalWatchMigrations()
     if (localWatchMigrations.length > 0) {
       throw new Error(
@@ -542,9 +839,12 @@ export class Migrate {
       )
     }
     const datamodel = this.getDatamodel()
-    const appliedRemoteMigrations = await this.engine.listAppliedMigrations({
-      sourceConfig: datamodel,
-    })
+    const appliedRemoteMigrations = collapseSquashedMigrations(
+      await this.engine.listAppliedMigrations({
+        sourceConfig: datamodel,
+      }),
+      localMigrations,
+    )
 
     // TODO cleanup
     let lastAppliedIndex = -1
@@ -559,8 +859,9 @@ export class Migrate {
             localMigration.id !== remoteMigration.id &&
             !isWatchMigrationName(remoteMigration.id) // it's fine to have the watch migration remotely
           ) {
-            throw new Error(
+            throw new MigrateError(
               `Local and remote migrations are not in lockstep. We have migration ${localMigration.id} locally and ${remoteMigration.id} remotely at the same position in the history.`,
+              MigrateExitCode.HistoryMismatch,
             )
           }
           lastAppliedIndex = index
@@ -571,9 +872,40 @@ export class Migrate {
     )
 
     if (lastAppliedIndex === -1) {
+      if (json) {
+        return printJsonResult({
+          command: 'down',
+          success: true,
+          migrations: [],
+          warnings: [],
+          durationMs: Date.now() - before,
+        })
+      }
       return 'No migration to roll back'
     }
 
+    if (target) {
+      const targetIndex = findMigrationIndex(localMigrations, target)
+      const targetId = localMigrations[targetIndex].id
+      if (targetIndex > lastAppliedIndex) {
+        throw new Error(
+          `Migration ${chalk.bold(
+            targetId,
+          )} is not applied yet, so there is nothing to roll back. Use ${chalk.greenBright(
+            'prisma migrate up --experimental',
+          )} to apply it.`,
+        )
+      }
+      if (targetIndex === lastAppliedIndex) {
+        throw new Error(
+          `Migration ${chalk.bold(
+            targetId,
+          )} is already the last applied migration.`,
+        )
+      }
+      n = lastAppliedIndex - targetIndex
+    }
+
     if (n && n > appliedMigrations.length) {
       throw new Error(
         `You provided ${chalk.redBright(
@@ -588,37 +920,247 @@ export class Migrate {
 
     n = n || 1
 
+    const rolledBack: MigrationJsonResult[] = []
     for (let i = 0; i < n; i++) {
       const lastApplied = localMigrations[lastAppliedIndex]
-      console.log(`Rolling back migration ${blue(lastApplied.id)}`)
+      const rollbackBefore = Date.now()
+      if (!json) {
+        console.log(`Rolling back migration ${blue(lastApplied.id)}`)
+      }
 
-      const result = await this.engine.unapplyMigration({
-        sourceConfig: datamodel,
-      })
+      // a squashed migration is stored as its original migrations in databases,
+      // which applied them before they were squashed
+      const { squashedIds } = appliedRemoteMigrations[lastAppliedIndex]
+      const remoteCount = squashedIds ? squashedIds.length : 1
+      for (let j = 0; j < remoteCount; j++) {
+        const result = await this.engine.unapplyMigration({
+          sourceConfig: datamodel,
+        })
 
-      if (result.errors && result.errors.length > 0) {
-        throw new Error(
-          `Errors during rollback: ${JSON.stringify(result.errors)}`,
-        )
+        if (result.errors && result.errors.length > 0) {
+          throw new MigrateError(
+            `Errors during rollback: ${JSON.stringify(result.errors)}`,
+            MigrateExitCode.MigrationFailed,
+          )
+        }
       }
 
+      rolledBack.push({
+        id: lastApplied.id,
+        databaseSteps: [],
+        warnings: [],
+        durationMs: Date.now() - rollbackBefore,
+      })
       lastAppliedIndex--
     }
 
+    if (json) {
+      return printJsonResult({
+        command: 'down',
+        success: true,
+        migrations: rolledBack,
+        warnings: [],
+        durationMs: Date.now() - before,
+      })
+    }
+
     return `${
       process.platform === 'win32' ? '' : chalk.bold.green('🚀  ')
     } Done with ${chalk.bold('down')} in ${formatms(Date.now() - before)}`
   }
 
+  /**
+   * Compares the local migrations with the migrate.lock file and the database,
+   * without changing any of them
+   */
+  public async status(): Promise<MigrationStatusResult> {
+    const lockFile = await this.getLockFile()
+    const localMigrations = await this.getLocalMigrations()
+    const sourceConfig = this.getSourceConfig()
+    const remoteMigrations = collapseSquashedMigrations(
+      await this.engine.listMigrations({ sourceConfig }),
+      localMigrations,
+    )
+
+    const status = getMigrationStatus({
+      localMigrationIds: localMigrations.map((m) => m.id),
+      lockFileMigrationIds: lockFile.localMigrations,
+      remoteMigrations,
+    })
+
+    for (const failed of status.failed) {
+      const progress = await this.engine.migrationProgess({
+        migrationId: failed.id,
+        sourceConfig,
+      })
+      failed.errors = progress.errors
+    }
+
+    return status
+  }
+
+  /**
+   * Combines a range of local migrations into one migration.
+   * Databases, which applied all of the squashed migrations, treat it as applied.
+   */
+  public async squash({
+    from,
+    to,
+    name,
+  }: SquashOptions): Promise<SquashResult> {
+    const lockFile = await this.getLockFile()
+    const localMigrations = await this.getLocalMigrations()
+    this.verifyChecksums(lockFile, localMigrations)
+
+    const fromIndex = findMigrationIndex(localMigrations, from)
+    const toIndex = findMigrationIndex(localMigrations, to)
+    if (toIndex <= fromIndex) {
+      throw new Error(
+        `Please provide a range of at least two migrations. ${chalk.bold(
+          localMigrations[toIndex].id,
+        )} doesn't come after ${chalk.bold(localMigrations[fromIndex].id)}.`,
+      )
+    }
+
+    const previousMigrations = localMigrations.slice(0, fromIndex)
+    const squashed = localMigrations.slice(fromIndex, toIndex + 1)
+    const squashedIds = squashed.map((m) => m.id)
+    const lastMigration = previousMigrations[previousMigrations.length - 1]
+    const lastSquashed = squashed[squashed.length - 1]
+    const previousSteps = flatMap(previousMigrations, (m) => m.datamodelSteps)
+    const datamodelSteps = flatMap(squashed, (m) => m.datamodelSteps)
+
+    // make sure the combined steps still lead to a valid datamodel
+    await this.engine.calculateDatamodel({
+      steps: [...previousSteps, ...datamodelSteps],
+    })
+    const { databaseSteps } = await this.engine.calculateDatabaseSteps({
+      assumeToBeApplied: previousSteps,
+      stepsToApply: datamodelSteps,
+      sourceConfig: this.getSourceConfig(),
+    })
+
+    // keep the timestamp of the last squashed migration, so the order doesn't change
+    let migrationId = `${lastSquashed.id.split('-')[0]}-${dashify(
+      name || 'squashed',
+    )}`
+    if (squashedIds.includes(migrationId)) {
+      migrationId = `${migrationId}-squashed`
+    }
+
+    const migration: LocalMigrationWithDatabaseSteps = {
+      id: migrationId,
+      datamodel: lastSquashed.datamodel,
+      datamodelSteps,
+      databaseSteps,
+      warnings: [],
+      squashedMigrations: squashedIds,
+    }
+    const downDatabaseSteps = await this.getSquashedDownDatabaseSteps(
+      migration,
+      lastMigration,
+      fromIndex,
+      toIndex,
+    )
+    const files = this.getMigrationFileMap({
+      migration,
+      lastMigration,
+      downDatabaseSteps,
+    })
+
+    const lockFileIndex = lockFile.localMigrations.indexOf(squashedIds[0])
+    lockFile.localMigrations = lockFile.localMigrations.filter(
+      (id) => !squashedIds.includes(id),
+    )
+    lockFile.localMigrations.splice(
+      lockFileIndex > -1 ? lockFileIndex : lockFile.localMigrations.length,
+      0,
+      migrationId,
+    )
+    for (const id of squashedIds) {
+      delete lockFile.checksums[id]
+    }
+    lockFile.checksums[migrationId] = getMigrationChecksum(files)
+
+    return {
+      migrationId,
+      files,
+      squashedMigrations: squashedIds,
+      newLockFile: serializeLockFile(lockFile),
+    }
+  }
+
+  /**
+   * Compares the datamodels of two sources, e.g. the last applied migration
+   * and the introspected database to detect drift
+   */
+  public async diff(
+    from: DatamodelSource,
+    to: DatamodelSource,
+  ): Promise<DiffResult> {
+    const fromDatamodel = await this.getDatamodelFromSource(from)
+    const toDatamodel = await this.getDatamodelFromSource(to)
+    const cwd = path.dirname(this.schemaPath)
+    const [fromDmmf, toDmmf] = await Promise.all([
+      getDMMF({ datamodel: fromDatamodel, cwd }),
+      getDMMF({ datamodel: toDatamodel, cwd }),
+    ])
+
+    return {
+      from: fromDatamodel,
+      to: toDatamodel,
+      diff: diffDatamodels(fromDmmf.datamodel, toDmmf.datamodel),
+    }
+  }
+
+  public async getDatamodelFromSource(
+    source: DatamodelSource,
+  ): Promise<string> {
+    switch (source.type) {
+      case 'schema':
+        return this.getDatamodel()
+      case 'migration': {
+        const localMigrations = await this.getLocalMigrations()
+        return localMigrations[
+          findMigrationIndex(localMigrations, source.target)
+        ].datamodel
+      }
+      case 'migrations': {
+        const appliedMigrations = (
+          await this.engine.listAppliedMigrations({
+            sourceConfig: this.getSourceConfig(),
+          })
+        ).filter((m) => !isWatchMigrationName(m.id))
+        return appliedMigrations.length > 0
+          ? appliedMigrations[appliedMigrations.length - 1].datamodel
+          : ''
+      }
+      case 'database': {
+        const engine = new IntrospectionEngine({
+          cwd: path.dirname(this.schemaPath),
+        })
+        try {
+          const { datamodel } = await engine.introspect(this.getDatamodel())
+          return datamodel
+        } finally {
+          engine.stop()
+        }
+      }
+    }
+  }
+
   public async up({
     n,
+    target,
     preview,
     short,
     verbose,
     autoApprove,
+    force,
+    json,
     onWarnings,
   }: UpOptions = {}): Promise<string> {
-    await this.getLockFile()
+    const lockFile = await this.getLockFile()
     const before = Date.now()
 
     const migrationsToApplyResult = await this.getMigrationsToApply()
@@ -628,13 +1170,46 @@ export class Migrate {
       appliedRemoteMigrations,
       sourceConfig,
     } = migrationsToApplyResult
+
+    if (!force) {
+      this.verifyChecksums(lockFile, localMigrations)
+    }
     let { migrationsToApply } = migrationsToApplyResult
 
     if (typeof n === 'number') {
       migrationsToApply = migrationsToApply.slice(0, n)
     }
 
-    if (!short) {
+    if (target) {
+      const targetIndex = findMigrationIndex(localMigrations, target)
+      const targetId = localMigrations[targetIndex].id
+      if (targetIndex <= lastAppliedIndex) {
+        throw new Error(
+          `Migration ${chalk.bold(
+            targetId,
+          )} is already applied. Use ${chalk.greenBright(
+            'prisma migrate down --experimental',
+          )} to roll back to it.`,
+        )
+      }
+      migrationsToApply = migrationsToApply.slice(
+        0,
+        migrationsToApply.indexOf(localMigrations[targetIndex]) + 1,
+      )
+    }
+
+    if (json && migrationsToApply.length === 0) {
+      return printJsonResult({
+        command: 'up',
+        success: true,
+        preview,
+        migrations: [],
+        warnings: [],
+        durationMs: Date.now() - before,
+      })
+    }
+
+    if (!short && !json) {
       const previewStr = preview ? ` --preview` : ''
       console.log(
         `${
@@ -668,7 +1243,9 @@ export class Migrate {
       }
     }
 
-    console.log(`\nChecking the datasource for potential data loss...`)
+    if (!json) {
+      console.log(`\nChecking the datasource for potential data loss...`)
+    }
     const firstMigrationToApplyIndex = localMigrations.indexOf(
       migrationsToApply[0],
     )
@@ -680,7 +1257,18 @@ export class Migrate {
 
     const warnings = flatMap(migrationsWithDbSteps, (m) => m.warnings)
 
-    if (warnings.length > 0 && !autoApprove) {
+    if (warnings.length > 0 && !autoApprove && json && !preview) {
+      throw new MigrateError(
+        `There will be data loss:\n${warnings
+          .map((warning) => `  • ${warning.description}`)
+          .join(
+            '\n',
+          )}\n\nUse --auto-approve to accept the destructive changes.`,
+        MigrateExitCode.DataLoss,
+      )
+    }
+
+    if (warnings.length > 0 && !autoApprove && !json) {
       if (onWarnings && typeof onWarnings === 'function' && !autoApprove) {
         const ok = await onWarnings(warnings)
         if (!ok) {
@@ -713,21 +1301,40 @@ export class Migrate {
 
     const progressRenderer = new ProgressRenderer(
       migrationsWithDbSteps,
-      short || false,
+      short || json || false,
     )
 
     progressRenderer.render()
 
+    const getJsonResult = (migrations: MigrationJsonResult[]): string =>
+      printJsonResult({
+        command: 'up',
+        success: true,
+        preview,
+        migrations,
+        warnings,
+        durationMs: Date.now() - before,
+      })
+
     if (preview) {
       progressRenderer.done()
+      if (json) {
+        return getJsonResult(
+          migrationsToApply.map((_, i) =>
+            getMigrationJsonResult(migrationsWithDbSteps[i]),
+          ),
+        )
+      }
       return `\nTo apply the migrations, run ${chalk.greenBright(
         'prisma migrate up --experimental',
       )}\n`
     }
 
+    const applied: MigrationJsonResult[] = []
     for (let i = 0; i < migrationsToApply.length; i++) {
       const migrationToApply = migrationsToApply[i]
       const { id, datamodelSteps } = migrationToApply
+      const migrationBefore = Date.now()
       const result = await this.engine.applyMigration({
         force: true,
         migrationId: id,
@@ -756,12 +1363,16 @@ export class Migrate {
         }
         if (progress.status === 'RollbackSuccess') {
           cliCursor.show()
-          throw new Error(`Rolled back migration. ${JSON.stringify(progress)}`)
+          throw new MigrateError(
+            `Rolled back migration. ${JSON.stringify(progress)}`,
+            MigrateExitCode.MigrationFailed,
+          )
         }
         if (progress.status === 'RollbackFailure') {
           cliCursor.show()
-          throw new Error(
+          throw new MigrateError(
             `Failed to roll back migration. ${JSON.stringify(progress)}`,
+            MigrateExitCode.MigrationFailed,
           )
         }
         await new Promise((r) => setTimeout(r, 1500))
@@ -782,7 +1393,11 @@ export class Migrate {
           console.error(e)
         })
         child.stderr.on('data', (d) => {
-          console.log(`stderr ${d.toString()}`)
+          if (json) {
+            console.error(d.toString())
+          } else {
+            console.log(`stderr ${d.toString()}`)
+          }
         })
         progressRenderer.showLogs(path.basename(after), child.stdout)
         await new Promise((r) => {
@@ -794,9 +1409,18 @@ export class Migrate {
           })
         })
       }
+
+      applied.push({
+        ...getMigrationJsonResult(migrationsWithDbSteps[i]),
+        durationMs: Date.now() - migrationBefore,
+      })
     }
     progressRenderer.done()
 
+    if (json) {
+      return getJsonResult(applied)
+    }
+
     if (verbose) {
       console.log(chalk.bold(`\nSQL Commands:\n`))
       console.log(highlightMigrationsSQL(migrationsWithDbSteps))
@@ -817,13 +1441,20 @@ export class Migrate {
   private getMigrationFileMap({
     migration,
     lastMigration,
+    downDatabaseSteps,
   }: MigrationFileMapOptions): FileMap {
     // const { version } = packageJson
     const { datamodelSteps, datamodel } = migration
 
     return {
       ['steps.json']: JSON.stringify(
-        { version: '0.3.14-fixed', steps: datamodelSteps },
+        {
+          version: '0.3.14-fixed',
+          steps: datamodelSteps,
+          ...(migration.squashedMigrations
+            ? { squashed: migration.squashedMigrations }
+            : {}),
+        },
         null,
         2,
       ),
@@ -834,8 +1465,51 @@ export class Migrate {
         datamodelA: lastMigration ? lastMigration.datamodel : '',
         datamodelB: datamodel,
         databaseSteps: migration.databaseSteps,
+        squashedMigrations: migration.squashedMigrations,
       }),
+      ['up.sql']: printSqlScript(migration.id, migration.databaseSteps),
+      ...(downDatabaseSteps
+        ? { ['down.sql']: printSqlScript(migration.id, downDatabaseSteps) }
+        : {}),
+    }
+  }
+
+  private verifyChecksums(
+    lockFile: LockFile,
+    localMigrations: LocalMigration[],
+  ): void {
+    const { edited, missing } = getChecksumMismatches(lockFile, localMigrations)
+    if (edited.length === 0 && missing.length === 0) {
+      return
+    }
+
+    const messages: string[] = []
+    if (edited.length > 0) {
+      messages.push(
+        `These migrations were changed after they have been saved:\n${edited
+          .map((id) => `  • ${chalk.bold(id)}`)
+          .join('\n')}`,
+      )
+    }
+    if (missing.length > 0) {
+      messages.push(
+        `These migrations are listed in ${chalk.bold(
+          'migrations/migrate.lock',
+        )}, but their folder is missing:\n${missing
+          .map((id) => `  • ${chalk.bold(id)}`)
+          .join('\n')}`,
+      )
     }
+    messages.push(
+      `Restore the migrations or run the command again with ${chalk.bold(
+        '--force',
+      )} to ignore the ${chalk.bold('migrate.lock')} file.`,
+    )
+
+    throw new MigrateError(
+      messages.join('\n\n'),
+      MigrateExitCode.ChecksumMismatch,
+    )
   }
 
   private async persistWatchMigration(
@@ -911,10 +1585,17 @@ export class Migrate {
         )
       }
 
+      const fileMap: FileMap = {}
+      for (const f of files) {
+        fileMap[f.fileName] = f.file
+      }
+
       return {
         id: migrationId,
         datamodelSteps: stepsFileJson.steps,
         datamodel: datamodelFile.file,
+        checksum: getMigrationChecksum(fileMap),
+        squashedMigrations: stepsFileJson.squashed,
         afterFilePath: afterFile
           ? path.resolve(migrationsDir, migrationId, afterFile.fileName)
           : undefined,
@@ -965,6 +1646,100 @@ export class Migrate {
     return migrationsWithDatabaseSteps.slice(fromIndex)
   }
 
+  /**
+   * Infers the database steps, which revert the migration, by migrating from
+   * its datamodel back to the datamodel of the previous migration
+   */
+  private async getDownDatabaseSteps(
+    migration: Migration,
+    lastMigration?: Migration,
+  ): Promise<DatabaseStep[]> {
+    const {
+      migrationsToApply,
+      sourceConfig,
+    } = await this.getMigrationsToApply()
+
+    return this.inferDownDatabaseSteps(
+      migration,
+      lastMigration,
+      flatMap(migrationsToApply, (m) => m.datamodelSteps),
+      sourceConfig,
+    )
+  }
+
+  /**
+   * Infers the down steps of a squashed migration from the database like `save` does.
+   * Resolves to undefined, if the database applied migrations after the squashed ones,
+   * as their changes can't be told apart from the squashed ones.
+   */
+  private async getSquashedDownDatabaseSteps(
+    migration: Migration,
+    lastMigration: Migration | undefined,
+    fromIndex: number,
+    toIndex: number,
+  ): Promise<DatabaseStep[] | undefined> {
+    const {
+      localMigrations,
+      lastAppliedIndex,
+      sourceConfig,
+    } = await this.getMigrationsToApply()
+
+    if (lastAppliedIndex >= fromIndex && lastAppliedIndex < toIndex) {
+      throw new MigrateError(
+        `The database applied only ${lastAppliedIndex - fromIndex + 1} of the ${
+          toIndex - fromIndex + 1
+        } migrations to squash. Please apply the remaining ones with ${chalk.greenBright(
+          'prisma migrate up --experimental',
+        )} or roll back the applied ones with ${chalk.greenBright(
+          'prisma migrate down --experimental',
+        )} before squashing them.`,
+        MigrateExitCode.HistoryMismatch,
+      )
+    }
+
+    if (lastAppliedIndex > toIndex) {
+      return undefined
+    }
+
+    const { databaseSteps } = await this.engine.inferMigrationSteps({
+      sourceConfig,
+      datamodel: lastMigration ? lastMigration.datamodel : '',
+      migrationId: `${migration.id}-down`,
+      assumeToBeApplied: flatMap(
+        localMigrations.slice(lastAppliedIndex + 1, toIndex + 1),
+        (m) => m.datamodelSteps,
+      ),
+    })
+
+    return databaseSteps
+  }
+
+  private async inferDownDatabaseSteps(
+    migration: Migration,
+    lastMigration: Migration | undefined,
+    assumeToBeApplied: DatamodelStep[],
+    sourceConfig: string,
+  ): Promise<DatabaseStep[]> {
+    const { databaseSteps } = await this.engine.inferMigrationSteps({
+      sourceConfig,
+      datamodel: lastMigration ? lastMigration.datamodel : '',
+      migrationId: `${migration.id}-down`,
+      assumeToBeApplied: [...assumeToBeApplied, ...migration.datamodelSteps],
+    })
+
+    return databaseSteps
+  }
+
+  private async readLockFile(): Promise<LockFile> {
+    const lockFilePath = path.join(this.migrationsDir, 'migrate.lock')
+    if (await exists(lockFilePath)) {
+      const file = await readFile(lockFilePath, 'utf-8')
+      return deserializeLockFile(file)
+    }
+
+    return initLockFile()
+  }
+
   private async getMigrationsToApply(): Promise<{
     localMigrations: LocalMigration[]
     lastAppliedIndex: number
@@ -978,8 +1753,9 @@ export class Migrate {
     const appliedRemoteMigrations = await this.engine.listAppliedMigrations({
       sourceConfig,
     })
-    const appliedRemoteMigrationsWithoutWatch = appliedRemoteMigrations.filter(
-      (m) => !isWatchMigrationName(m.id),
+    const appliedRemoteMigrationsWithoutWatch = collapseSquashedMigrations(
+      appliedRemoteMigrations.filter((m) => !isWatchMigrationName(m.id)),
+      localMigrations,
     )
 
     if (appliedRemoteMigrationsWithoutWatch.length > localMigrations.length) {
@@ -988,10 +1764,11 @@ export class Migrate {
         (m) => m.id,
       )
 
-      throw new Error(
+      throw new MigrateError(
         `There are more migrations in the database than locally. This must not happen. Local migration ids: ${localMigrationIds.join(
           ', ',
         )}. Remote migration ids: ${remoteMigrationIds.join(', ')}`,
+        MigrateExitCode.HistoryMismatch,
       )
     }
 
@@ -1007,8 +1784,9 @@ export class Migrate {
             localMigration.id !== remoteMigration.id &&
             !isWatchMigrationName(remoteMigration.id)
           ) {
-            throw new Error(
+            throw new MigrateError(
               `Local and remote migrations are not in lockstep. We have migration ${localMigration.id} locally and ${remoteMigration.id} remotely at the same position in the history.`,
+              MigrateExitCode.HistoryMismatch,
             )
           }
           if (!isWatchMigrationName(remoteMigration.id)) {
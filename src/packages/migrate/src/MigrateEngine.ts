@@ -82,6 +82,11 @@ export class MigrateEngine {
   ): Promise<EngineResults.InferMigrationSteps> {
     return this.runCommand(this.getRPCPayload('inferMigrationSteps', args))
   }
+  public listMigrations(
+    args: EngineArgs.ListMigrations,
+  ): Promise<EngineResults.ListMigrations> {
+    return this.runCommand(this.getRPCPayload('listMigrations', args))
+  }
   // Helper function, oftentimes we just want the applied migrations
   public async listAppliedMigrations(
     args: EngineArgs.ListMigrations,
@@ -6,6 +6,7 @@ import path from 'path'
 import { promisify } from 'util'
 
 const exists = promisify(fs.exists)
+const unlink = promisify(fs.unlink)
 
 // https://github.com/prisma/specs/tree/master/errors#common
 export type DatabaseErrorCodes =
@@ -111,10 +112,58 @@ export async function createDatabase(
   )
 }
 
+export async function dropDatabase(
+  connectionString: string,
+  cwd = process.cwd(),
+  migrationEnginePath?: string,
+): Promise<void> {
+  const credentials = uriToCredentials(connectionString)
+
+  // dropping the tables of a SQLite database equals removing its file
+  if (credentials.type === 'sqlite') {
+    const filePath = await getSqliteDbPath(connectionString, cwd)
+    if (await exists(filePath)) {
+      await unlink(filePath)
+    }
+    return
+  }
+
+  migrationEnginePath =
+    migrationEnginePath || (await resolveBinary('migration-engine'))
+  try {
+    await execa(
+      migrationEnginePath,
+      ['cli', '--datasource', connectionString, 'drop-database'],
+      {
+        cwd,
+        env: {
+          ...process.env,
+          RUST_BACKTRACE: '1',
+          RUST_LOG: 'info',
+        },
+      },
+    )
+  } catch (e) {
+    // the drop-database subcommand isn't available in every migration engine
+    throw new Error(
+      `The migration engine could not drop the ${credentials.type} database.
+Please drop it manually and run \`prisma migrate up --experimental\` afterwards.
+${e.stdout || e.stderr || e.message}`,
+    )
+  }
+}
+
 async function doesSqliteDbExist(
   connectionString: string,
   schemaDir?: string,
 ): Promise<boolean> {
+  return exists(await getSqliteDbPath(connectionString, schemaDir))
+}
+
+async function getSqliteDbPath(
+  connectionString: string,
+  schemaDir?: string,
+): Promise<string> {
   let filePath = connectionString
 
   if (filePath.startsWith('file:')) {
@@ -126,7 +175,5 @@ async function doesSqliteDbExist(
     throw new Error(`Could not find schema.prisma in ${process.cwd()}`)
   }
 
-  const absoluteTarget = path.resolve(cwd, filePath)
-
-  return exists(absoluteTarget)
+  return path.resolve(cwd, filePath)
 }
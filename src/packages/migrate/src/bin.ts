@@ -16,6 +16,12 @@ import { HelpError, isError } from '@prisma/sdk'
 import { MigrateCommand } from './commands/MigrateCommand'
 import { MigrateDown } from './commands/MigrateDown'
 import { MigrateSave } from './commands/MigrateSave'
+import { MigrateStatus } from './commands/MigrateStatus'
+import { MigrateSql } from './commands/MigrateSql'
+import { MigrateResolve } from './commands/MigrateResolve'
+import { MigrateReset } from './commands/MigrateReset'
+import { MigrateDiff } from './commands/MigrateDiff'
+import { MigrateSquash } from './commands/MigrateSquash'
 import { MigrateTmpPrepare } from './commands/MigrateTmpPrepare'
 import { MigrateUp } from './commands/MigrateUp'
 import { StudioCommand } from './commands/StudioCommand'
@@ -42,6 +48,12 @@ async function main(): Promise<number> {
     save: MigrateSave.new(),
     up: MigrateUp.new(),
     down: MigrateDown.new(),
+    status: MigrateStatus.new(),
+    sql: MigrateSql.new(),
+    resolve: MigrateResolve.new(),
+    reset: MigrateReset.new(),
+    diff: MigrateDiff.new(),
+    squash: MigrateSquash.new(),
     ['tmp-prepare']: MigrateTmpPrepare.new(),
     studio: StudioCommand.new(providerAliases),
   })
@@ -0,0 +1,84 @@
+import {
+  arg,
+  Command,
+  Commands,
+  format,
+  HelpError,
+  isError,
+  unknownCommand,
+} from '@prisma/sdk'
+import chalk from 'chalk'
+
+/**
+ * $ prisma db
+ */
+export class DbCommand implements Command {
+  public static new(cmds: Commands): DbCommand {
+    return new DbCommand(cmds)
+  }
+
+  // static help template
+  private static help = format(`
+    Manage the data in your database
+
+    ${chalk.bold('Usage')}
+
+      With an existing schema.prisma:
+      ${chalk.dim('$')} prisma db [command] [options]
+
+      Or specify a schema:
+      ${chalk.dim('$')} prisma db [command] [options] --schema=./schema.prisma
+
+    ${chalk.bold('Options')}
+
+      -h, --help   Display this help message
+
+    ${chalk.bold('Commands')}
+
+        seed   Run the seed script of your project
+
+    ${chalk.bold('Examples')}
+
+      Seed your database
+      ${chalk.dim('$')} prisma db seed
+  `)
+  private constructor(private readonly cmds: Commands) {}
+
+  public async parse(argv: string[]): Promise<string | Error> {
+    // parse the arguments according to the spec
+    const args = arg(argv, {
+      '--help': Boolean,
+      '-h': '--help',
+      '--experimental': Boolean,
+    })
+
+    if (isError(args)) {
+      return this.help(args.message)
+    }
+
+    // display help for help flag or no subcommand
+    if (args._.length === 0 || args['--help']) {
+      return this.help()
+    }
+
+    // check if we have that subcommand
+    const cmd = this.cmds[args._[0]]
+    if (cmd) {
+      const argsForCmd = args['--experimental']
+        ? [...args._.slice(1), `--experimental=${args['--experimental']}`]
+        : args._.slice(1)
+      return cmd.parse(argsForCmd)
+    }
+
+    return unknownCommand(DbCommand.help, args._[0])
+  }
+
+  public help(error?: string): string | HelpError {
+    if (error) {
+      return new HelpError(
+        `\n${chalk.bold.red(`!`)} ${error}\n${DbCommand.help}`,
+      )
+    }
+    return DbCommand.help
+  }
+}
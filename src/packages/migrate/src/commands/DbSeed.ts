@@ -0,0 +1,95 @@
+import { arg, Command, format, HelpError, isError } from '@prisma/sdk'
+import chalk from 'chalk'
+import path from 'path'
+import { findSeedScript, runSeed, seedFileNames } from '../utils/seed'
+
+/**
+ * $ prisma db seed
+ */
+export class DbSeed implements Command {
+  public static new(): DbSeed {
+    return new DbSeed()
+  }
+
+  // static help template
+  private static help = format(`
+    Seed your database
+
+    ${chalk.bold('Usage')}
+
+      ${chalk.dim('$')} prisma db seed
+
+    Runs the seed script configured as ${chalk.bold(
+      'prisma.seed',
+    )} in your package.json.
+    Without configuration, ${seedFileNames
+      .map((fileName) => chalk.bold(fileName))
+      .join(', ')} beside your schema.prisma is used.
+    TypeScript seeds are run with ts-node.
+
+    ${chalk.bold('Options')}
+
+      -h, --help   Displays this help message
+
+    ${chalk.bold('Examples')}
+
+      Seed your database
+      ${chalk.dim('$')} prisma db seed
+
+      Seed the database of a specific schema
+      ${chalk.dim('$')} prisma db seed --schema=./prisma/schema.prisma
+  `)
+
+  // parse arguments
+  public async parse(argv: string[]): Promise<string | Error> {
+    // parse the arguments according to the spec
+    const args = arg(
+      argv,
+      {
+        '--help': Boolean,
+        '-h': '--help',
+        '--experimental': Boolean,
+        '--schema': String,
+      },
+      false,
+    )
+
+    if (isError(args)) {
+      return this.help(args.message)
+    }
+
+    if (args['--help']) {
+      return this.help()
+    }
+
+    const seedPath = await findSeedScript(args['--schema'])
+    if (!seedPath) {
+      return this.help(
+        `Could not find a seed script. Configure ${chalk.bold(
+          'prisma.seed',
+        )} in your package.json or add a ${chalk.bold(
+          'seed.ts',
+        )} file beside your schema.prisma.`,
+      )
+    }
+
+    console.log(
+      `Running seed script ${chalk.bold(
+        path.relative(process.cwd(), seedPath),
+      )} ...`,
+    )
+    await runSeed(seedPath)
+
+    return `\n${
+      process.platform === 'win32' ? '' : chalk.bold.green('🌱  ')
+    }Your database has been seeded.\n`
+  }
+
+  // help message
+  public help(error?: string): string | HelpError {
+    if (error) {
+      return new HelpError(`\n${chalk.bold.red(`!`)} ${error}\n${DbSeed.help}`)
+    }
+    return DbSeed.help
+  }
+}
@@ -50,6 +50,12 @@ export class MigrateCommand implements Command {
         save   Create a new migration
           up   Migrate your database up
         down   Migrate your database down
+      status   Show which migrations are applied
+         sql   Print the SQL scripts of a migration
+     resolve   Resolve a merge conflict in migrate.lock
+       reset   Reset your database and apply all migrations
+        diff   Compare migrations, schema and database
+      squash   Squash a range of migrations into one
 
     ${chalk.bold('Examples')}
 
@@ -65,6 +71,9 @@ export class MigrateCommand implements Command {
       Rollback a migration
       ${chalk.dim('$')} prisma migrate down 1 --experimental
 
+      Show which migrations are applied
+      ${chalk.dim('$')} prisma migrate status --experimental
+
       Get more help on a migrate up
       ${chalk.dim('$')} prisma migrate up -h --experimental
   `)
@@ -0,0 +1,190 @@
+import { arg, Command, format, HelpError, isError } from '@prisma/sdk'
+import chalk from 'chalk'
+import { DatamodelSource, DiffResult, Migrate } from '../Migrate'
+import { hasDifferences } from '../utils/diffDatamodels'
+import { ExperimentalFlagError } from '../utils/experimental'
+import { printDatamodelDiff } from '../utils/printDatamodelDiff'
+import { printDiffSummary } from '../utils/printDiffSummary'
+
+interface SourceFlags {
+  migrations?: boolean
+  migration?: string
+  schema?: boolean
+  database?: boolean
+}
+
+export class MigrateDiff implements Command {
+  public static new(): MigrateDiff {
+    return new MigrateDiff()
+  }
+
+  // static help template
+  private static help = format(`
+    Compare the datamodels of your migrations, your schema and your database.
+
+    ${chalk.bold.yellow('WARNING')} ${chalk.bold(
+    "Prisma's migration functionality is currently in an experimental state.",
+  )}
+    ${chalk.dim(
+      'When using any of the commands below you need to explicitly opt-in via the --experimental flag.',
+    )}
+
+    ${chalk.bold('Usage')}
+
+      ${chalk.dim('$')} prisma migrate diff --from-... --to-... --experimental
+
+    ${chalk.bold('Sources')}
+
+      --from-migrations, --to-migrations        The last migration applied to the database
+      --from-migration, --to-migration <id>     A local migration by id, id prefix or name
+      --from-schema, --to-schema                The schema.prisma file
+      --from-database, --to-database            The introspected database
+
+    ${chalk.bold('Options')}
+
+      -h, --help    Displays this help message
+      --json        Only print a machine-readable summary
+      --exit-code   Exit with code 1 when there are differences
+
+    Models, fields, enums and their attributes are compared.
+    Indexes defined with ${chalk.bold('@@index')} are not compared yet.
+
+    ${chalk.bold('Examples')}
+
+      Detect changes made to the database outside of migrations
+      ${chalk.dim(
+        '$',
+      )} prisma migrate diff --from-migrations --to-database --experimental
+
+      Show the changes of the schema, which are not saved as a migration yet
+      ${chalk.dim(
+        '$',
+      )} prisma migrate diff --from-migrations --to-schema --experimental
+
+      Compare two migrations
+      ${chalk.dim(
+        '$',
+      )} prisma migrate diff --from-migration 20200101000000 --to-migration 20200201000000 --experimental
+  `)
+
+  // parse arguments
+  public async parse(argv: string[]): Promise<string | Error> {
+    // parse the arguments according to the spec
+    const args = arg(
+      argv,
+      {
+        '--help': Boolean,
+        '-h': '--help',
+        '--from-migrations': Boolean,
+        '--from-migration': String,
+        '--from-schema': Boolean,
+        '--from-database': Boolean,
+        '--to-migrations': Boolean,
+        '--to-migration': String,
+        '--to-schema': Boolean,
+        '--to-database': Boolean,
+        '--json': Boolean,
+        '--exit-code': Boolean,
+        '--experimental': Boolean,
+        '--schema': String,
+      },
+      false,
+    )
+
+    if (isError(args)) {
+      return this.help(args.message)
+    }
+
+    if (args['--help']) {
+      return this.help()
+    }
+
+    if (!args['--experimental']) {
+      throw new ExperimentalFlagError()
+    }
+
+    const from = this.getSource('from', {
+      migrations: args['--from-migrations'],
+      migration: args['--from-migration'],
+      schema: args['--from-schema'],
+      database: args['--from-database'],
+    })
+    const to = this.getSource('to', {
+      migrations: args['--to-migrations'],
+      migration: args['--to-migration'],
+      schema: args['--to-schema'],
+      database: args['--to-database'],
+    })
+    if (isError(from)) {
+      return this.help(from.message)
+    }
+    if (isError(to)) {
+      return this.help(to.message)
+    }
+
+    const migrate = new Migrate(args['--schema'])
+    let result: DiffResult
+    try {
+      result = await migrate.diff(from, to)
+    } finally {
+      migrate.stop()
+    }
+
+    if (args['--exit-code'] && hasDifferences(result.diff)) {
+      process.exitCode = 1
+    }
+
+    if (args['--json']) {
+      return JSON.stringify(result.diff, null, 2)
+    }
+
+    if (!hasDifferences(result.diff)) {
+      return 'No differences found'
+    }
+
+    return `${printDatamodelDiff(result.from, result.to)}\n\n${printDiffSummary(
+      result.diff,
+    )}`
+  }
+
+  private getSource(
+    direction: 'from' | 'to',
+    flags: SourceFlags,
+  ): DatamodelSource | Error {
+    const sources: DatamodelSource[] = []
+    if (flags.migrations) {
+      sources.push({ type: 'migrations' })
+    }
+    if (flags.migration) {
+      sources.push({ type: 'migration', target: flags.migration })
+    }
+    if (flags.schema) {
+      sources.push({ type: 'schema' })
+    }
+    if (flags.database) {
+      sources.push({ type: 'database' })
+    }
+
+    if (sources.length !== 1) {
+      return new Error(
+        `Please provide exactly one of ${chalk.bold(
+          `--${direction}-migrations`,
+        )}, ${chalk.bold(`--${direction}-migration`)}, ${chalk.bold(
+          `--${direction}-schema`,
+        )} or ${chalk.bold(`--${direction}-database`)}.`,
+      )
+    }
+
+    return sources[0]
+  }
+
+  // help message
+  public help(error?: string): string | HelpError {
+    if (error) {
+      return new HelpError(
+        `\n${chalk.bold.red(`!`)} ${error}\n${MigrateDiff.help}`,
+      )
+    }
+    return MigrateDiff.help
+  }
+}
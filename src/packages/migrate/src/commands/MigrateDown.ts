@@ -3,6 +3,8 @@ import chalk from 'chalk'
 import { DownOptions, Migrate } from '../Migrate'
 import { ensureDatabaseExists } from '../utils/ensureDatabaseExists'
 import { ExperimentalFlagError } from '../utils/experimental'
+import { isMigrationIncrement } from '../utils/findMigration'
+import { printJsonError } from '../utils/printJsonResult'
 
 export class MigrateDown implements Command {
   public static new(): MigrateDown {
@@ -28,11 +30,18 @@ export class MigrateDown implements Command {
 
     ${chalk.bold('Arguments')}
 
-      [<dec>]   go down by an amount [default: 1]
+      [<dec>]         go down by an amount [default: 1]
+      [<name>]        go down to the migration with this id, id prefix or name
+      [<timestamp>]   go down to the migration with this timestamp
+
+    Going down to a migration rolls back all migrations applied after it.
 
     ${chalk.bold('Options')}
 
       -h, --help       Displays this help message
+      -n, --name       Name of the migration to go down to
+      --force          Ignore changed or missing migrations in the migrate.lock file
+      --json           Only print a machine-readable result
 
     ${chalk.bold('Examples')}
 
@@ -60,6 +69,10 @@ export class MigrateDown implements Command {
         '-p': '--preview',
         '--experimental': Boolean,
         '--schema': String,
+        '--name': String,
+        '-n': '--name',
+        '--force': Boolean,
+        '--json': Boolean,
       },
       false,
     )
@@ -78,26 +91,51 @@ export class MigrateDown implements Command {
 
     const migrate = new Migrate(args['--schema'])
 
-    const options: DownOptions = {}
+    const options: DownOptions = {
+      force: args['--force'],
+      json: args['--json'],
+    }
+
+    if (args._.length > 0 && args['--name']) {
+      return this.help(
+        `Please either provide a migration or ${chalk.bold(
+          '--name',
+        )}, not both.`,
+      )
+    }
 
-    // TODO add go down by name and timestamp
     if (args._.length > 0) {
       const thisArg = args._[0]
-      const maybeNumber = parseInt(thisArg, 10)
 
-      // in this case it's a migration id
-      if (isNaN(maybeNumber) || typeof maybeNumber !== 'number') {
-        throw new Error(`Invalid migration step ${maybeNumber}`)
+      // small numbers are increments, anything else identifies a migration
+      if (isMigrationIncrement(thisArg)) {
+        options.n = parseInt(thisArg, 10)
       } else {
-        options.n = maybeNumber
+        options.target = thisArg
       }
+    } else if (args['--name']) {
+      options.target = args['--name']
     }
 
-    await ensureDatabaseExists('unapply', true, undefined, args['--schema'])
+    const before = Date.now()
+    try {
+      await ensureDatabaseExists(
+        'unapply',
+        true,
+        undefined,
+        args['--schema'],
+        args['--json'],
+      )
 
-    const result = await migrate.down(options)
-    migrate.stop()
-    return result
+      return await migrate.down(options)
+    } catch (e) {
+      if (args['--json']) {
+        return printJsonError('down', e, before)
+      }
+      throw e
+    } finally {
+      migrate.stop()
+    }
   }
 
   // help message
@@ -0,0 +1,150 @@
+import {
+  arg,
+  Command,
+  format,
+  getSchemaDir,
+  HelpError,
+  isError,
+  uriToCredentials,
+} from '@prisma/sdk'
+import chalk from 'chalk'
+import path from 'path'
+import { prompt } from 'prompts'
+import { Migrate } from '../Migrate'
+import { dropDatabase } from '../MigrateEngineCommands'
+import {
+  ensureDatabaseExists,
+  getActiveDatasource,
+} from '../utils/ensureDatabaseExists'
+import { ExperimentalFlagError } from '../utils/experimental'
+import { findSeedScript, runSeed } from '../utils/seed'
+
+export class MigrateReset implements Command {
+  public static new(): MigrateReset {
+    return new MigrateReset()
+  }
+
+  // static help template
+  private static help = format(`
+    Reset your database and apply all migrations.
+
+    ${chalk.bold.yellow('WARNING')} ${chalk.bold(
+    "Prisma's migration functionality is currently in an experimental state.",
+  )}
+    ${chalk.dim(
+      'When using any of the commands below you need to explicitly opt-in via the --experimental flag.',
+    )}
+
+    ${chalk.bold('Usage')}
+
+      ${chalk.dim('$')} prisma migrate reset --experimental
+
+    Drops the database, creates it again and applies all migrations.
+    Afterwards, the seed script of your project is run (see ${chalk.bold(
+      'prisma db seed',
+    )}).
+    ${chalk.bold('All data will be lost.')}
+
+    ${chalk.bold('Options')}
+
+      -h, --help    Displays this help message
+      -f, --force   Skip the confirmation prompt
+      --seed        Path of a seed script to run after the migrations
+      --skip-seed   Don't run the seed script of your project
+
+    ${chalk.bold('Examples')}
+
+      Reset the database
+      ${chalk.dim('$')} prisma migrate reset --experimental
+
+      Reset the database without confirmation and seed it
+      ${chalk.dim(
+        '$',
+      )} prisma migrate reset --force --seed ./seed.ts --experimental
+  `)
+
+  // parse arguments
+  public async parse(argv: string[]): Promise<string | Error> {
+    // parse the arguments according to the spec
+    const args = arg(
+      argv,
+      {
+        '--help': Boolean,
+        '-h': '--help',
+        '--force': Boolean,
+        '-f': '--force',
+        '--seed': String,
+        '--skip-seed': Boolean,
+        '--experimental': Boolean,
+        '--schema': String,
+      },
+      false,
+    )
+
+    if (isError(args)) {
+      return this.help(args.message)
+    }
+
+    if (args['--help']) {
+      return this.help()
+    }
+
+    if (!args['--experimental']) {
+      throw new ExperimentalFlagError()
+    }
+
+    const datasource = await getActiveDatasource(args['--schema'])
+    const schemaDir = (await getSchemaDir(args['--schema']))!
+    const { database } = uriToCredentials(datasource.url.value)
+
+    if (!args['--force']) {
+      const response = await prompt({
+        type: 'confirm',
+        name: 'value',
+        message: `Are you sure you want to reset the database ${chalk.bold(
+          database || datasource.name,
+        )}? All data will be lost.`,
+      })
+
+      if (!response.value) {
+        return 'Reset cancelled.'
+      }
+    }
+
+    await dropDatabase(datasource.url.value, schemaDir)
+    await ensureDatabaseExists('apply', true, true, args['--schema'])
+
+    const migrate = new Migrate(args['--schema'])
+    let result: string
+    try {
+      result = await migrate.up({ autoApprove: true })
+    } finally {
+      migrate.stop()
+    }
+
+    const seedPath = args['--seed']
+      ? path.resolve(args['--seed'])
+      : args['--skip-seed']
+      ? undefined
+      : await findSeedScript(args['--schema'])
+
+    if (seedPath) {
+      await runSeed(seedPath)
+      return `${result}\nReset the database and ran the seed script ${chalk.bold(
+        path.relative(process.cwd(), seedPath),
+      )}\n`
+    }
+
+    return result
+  }
+
+  // help message
+  public help(error?: string): string | HelpError {
+    if (error) {
+      return new HelpError(
+        `\n${chalk.bold.red(`!`)} ${error}\n${MigrateReset.help}`,
+      )
+    }
+    return MigrateReset.help
+  }
+}
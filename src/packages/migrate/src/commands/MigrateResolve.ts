@@ -0,0 +1,140 @@
+import { arg, Command, format, HelpError, isError } from '@prisma/sdk'
+import chalk from 'chalk'
+import fs from 'fs'
+import path from 'path'
+import rimraf from 'rimraf'
+import { promisify } from 'util'
+import { Migrate, ResolveResult } from '../Migrate'
+import { ExperimentalFlagError } from '../utils/experimental'
+import { printMigrationId } from '../utils/printMigrationId'
+import { serializeFileMap } from '../utils/serializeFileMap'
+
+const del = promisify(rimraf)
+const writeFile = promisify(fs.writeFile)
+
+export class MigrateResolve implements Command {
+  public static new(): MigrateResolve {
+    return new MigrateResolve()
+  }
+
+  // static help template
+  private static help = format(`
+    Resolve a merge conflict in the ${chalk.bold('migrate.lock')} file.
+
+    ${chalk.bold.yellow('WARNING')} ${chalk.bold(
+    "Prisma's migration functionality is currently in an experimental state.",
+  )}
+    ${chalk.dim(
+      'When using any of the commands below you need to explicitly opt-in via the --experimental flag.',
+    )}
+
+    ${chalk.bold('Usage')}
+
+      ${chalk.dim('$')} prisma migrate resolve --experimental
+
+    Rebases the migrations of your branch on top of the migrations
+    of the branch you merged and rewrites the ${chalk.bold(
+      'migrate.lock',
+    )} file.
+    Models and fields changed on both branches are reported, so you can review them.
+
+    ${chalk.bold('Options')}
+
+      -h, --help   Displays this help message
+
+    ${chalk.bold('Examples')}
+
+      Resolve the conflict after merging another branch
+      ${chalk.dim('$')} git merge master
+      ${chalk.dim('$')} prisma migrate resolve --experimental
+  `)
+
+  // parse arguments
+  public async parse(argv: string[]): Promise<string | Error> {
+    // parse the arguments according to the spec
+    const args = arg(
+      argv,
+      {
+        '--help': Boolean,
+        '-h': '--help',
+        '--experimental': Boolean,
+        '--schema': String,
+      },
+      false,
+    )
+
+    if (isError(args)) {
+      return this.help(args.message)
+    }
+
+    if (args['--help']) {
+      return this.help()
+    }
+
+    if (!args['--experimental']) {
+      throw new ExperimentalFlagError()
+    }
+
+    const migrate = new Migrate(args['--schema'])
+    let result: ResolveResult | undefined
+    try {
+      result = await migrate.resolve()
+    } finally {
+      migrate.stop()
+    }
+
+    if (!result) {
+      return `There's no merge conflict in ${chalk.bold(
+        'migrations/migrate.lock',
+      )}`
+    }
+
+    for (const { from, to, files } of result.rebased) {
+      await del(path.join(migrate.migrationsDir, from))
+      await serializeFileMap(files, path.join(migrate.migrationsDir, to))
+    }
+    await writeFile(
+      path.join(migrate.migrationsDir, 'migrate.lock'),
+      result.newLockFile,
+    )
+
+    const sections = [
+      `Resolved the merge conflict between ${chalk.bold(
+        result.localBranch || 'your branch',
+      )} and ${chalk.bold(
+        result.remoteBranch || 'the merged branch',
+      )} in ${chalk.bold('migrations/migrate.lock')}`,
+    ]
+
+    if (result.rebased.length > 0) {
+      sections.push(
+        `Rebased migrations:\n${result.rebased
+          .map(
+            ({ from, to }) =>
+              `  • ${chalk.dim(from)} → ${printMigrationId(to)}`,
+          )
+          .join('\n')}`,
+      )
+    }
+
+    if (result.conflicts.length > 0) {
+      sections.push(
+        `${chalk.bold.yellow(
+          'Both branches change these models and fields, please review the rebased migrations:',
+        )}\n${result.conflicts.map((c) => `  • ${chalk.bold(c)}`).join('\n')}`,
+      )
+    }
+
+    return `\n${sections.join('\n\n')}\n`
+  }
+
+  // help message
+  public help(error?: string): string | HelpError {
+    if (error) {
+      return new HelpError(
+        `\n${chalk.bold.red(`!`)} ${error}\n${MigrateResolve.help}`,
+      )
+    }
+    return MigrateResolve.help
+  }
+}
@@ -18,6 +18,11 @@ import { printFiles } from '../utils/printFiles'
 import { printMigrationId } from '../utils/printMigrationId'
 import { serializeFileMap } from '../utils/serializeFileMap'
 import { ExperimentalFlagError } from '../utils/experimental'
+import {
+  getMigrationJsonResult,
+  printJsonError,
+  printJsonResult,
+} from '../utils/printJsonResult'
 
 const writeFile = promisify(fs.writeFile)
 
@@ -50,6 +55,7 @@ export class MigrateSave implements Command {
       -n, --name       Name the migration
       -c, --create-db  Create the database in case it doesn't exist
       -p, --preview    Get a preview of which migration would be created next
+      --json           Only print a machine-readable result
 
     ${chalk.bold('Examples')}
 
@@ -77,6 +83,7 @@ export class MigrateSave implements Command {
       '-c': '--create-db',
       '--experimental': Boolean,
       '--schema': String,
+      '--json': Boolean,
     })
 
     if (isError(args)) {
@@ -91,67 +98,113 @@ export class MigrateSave implements Command {
       throw new ExperimentalFlagError()
     }
 
+    const before = Date.now()
+    try {
+      return await this.save(args, before)
+    } catch (e) {
+      if (args['--json']) {
+        return printJsonError('save', e, before)
+      }
+      throw e
+    }
+  }
+
+  private async save(
+    args: { [flag: string]: any },
+    before: number,
+  ): Promise<string> {
     const preview = args['--preview'] || false
+    const json = args['--json'] || false
     await ensureDatabaseExists(
       'create',
       true,
       args['--create-db'],
       args['--schema'],
+      json,
     )
 
     const migrate = new Migrate(args['--schema'])
+    try {
+      const migration = await migrate.createMigration('DUMMY_NAME')
+
+      if (!migration) {
+        if (json) {
+          return printJsonResult({
+            command: 'save',
+            success: true,
+            migrations: [],
+            warnings: [],
+            durationMs: Date.now() - before,
+          })
+        }
+        return `Everything up-to-date\n` // TODO: find better wording
+      }
 
-    const migration = await migrate.createMigration('DUMMY_NAME')
+      // there is no one to answer the prompt in json mode
+      const name =
+        preview || json ? args['--name'] : await this.name(args['--name'])
 
-    if (!migration) {
-      migrate.stop()
-      return `Everything up-to-date\n` // TODO: find better wording
-    }
-
-    const name = preview ? args['--name'] : await this.name(args['--name'])
+      const { files, newLockFile, migrationId } = await migrate.save(
+        migration,
+        name,
+        preview,
+        json,
+      )
 
-    const { files, newLockFile, migrationId } = await migrate.save(
-      migration,
-      name,
-      preview,
-    )
+      const getJsonResult = (): string =>
+        printJsonResult({
+          command: 'save',
+          success: true,
+          preview,
+          migrations: [getMigrationJsonResult(migration)],
+          warnings: migration.warnings,
+          durationMs: Date.now() - before,
+        })
+
+      if (json && preview) {
+        return getJsonResult()
+      }
 
-    if (migration.warnings && migration.warnings.length > 0) {
-      console.log(
-        chalk.bold(
-          `\n\n⚠️  There might be data loss when applying the migration:\n`,
-        ),
-      )
-      for (const warning of migration.warnings) {
-        console.log(chalk(`  • ${warning.description}`))
+      if (!json && migration.warnings && migration.warnings.length > 0) {
+        console.log(
+          chalk.bold(
+            `\n\n⚠️  There might be data loss when applying the migration:\n`,
+          ),
+        )
+        for (const warning of migration.warnings) {
+          console.log(chalk(`  • ${warning.description}`))
+        }
+        console.log() // empty line
       }
-      console.log() // empty line
-    }
 
-    if (preview) {
-      migrate.stop()
-      return `\nRun ${chalk.greenBright(
-        'prisma migrate save --name MIGRATION_NAME --experimental',
-      )} to create the migration\n`
-    }
+      if (preview) {
+        return `\nRun ${chalk.greenBright(
+          'prisma migrate save --name MIGRATION_NAME --experimental',
+        )} to create the migration\n`
+      }
 
-    await getSchema(args['--schema']) // just to leverage on its error handling
-    const schemaDir = (await getSchemaDir(args['--schema']))! // TODO: Probably getSchemaDir() should return Promise<string> instead of Promise<string | null>
+      await getSchema(args['--schema']) // just to leverage on its error handling
+      const schemaDir = (await getSchemaDir(args['--schema']))! // TODO: Probably getSchemaDir() should return Promise<string> instead of Promise<string | null>
 
-    const migrationsDir = path.join(schemaDir, 'migrations', migrationId)
-    await serializeFileMap(files, migrationsDir)
-    const lockFilePath = path.join(schemaDir, 'migrations', 'migrate.lock')
-    await writeFile(lockFilePath, newLockFile)
+      const migrationsDir = path.join(schemaDir, 'migrations', migrationId)
+      await serializeFileMap(files, migrationsDir)
+      const lockFilePath = path.join(schemaDir, 'migrations', 'migrate.lock')
+      await writeFile(lockFilePath, newLockFile)
 
-    migrate.stop()
+      if (json) {
+        return getJsonResult()
+      }
 
-    return `\nPrisma Migrate just created your migration ${printMigrationId(
-      migrationId,
-    )} in\n\n${chalk.dim(
-      printFiles(`migrations/${migrationId}`, files),
-    )}\n\nRun ${chalk.greenBright(
-      'prisma migrate up --experimental',
-    )} to apply the migration\n`
+      return `\nPrisma Migrate just created your migration ${printMigrationId(
+        migrationId,
+      )} in\n\n${chalk.dim(
+        printFiles(`migrations/${migrationId}`, files),
+      )}\n\nRun ${chalk.greenBright(
+        'prisma migrate up --experimental',
+      )} to apply the migration\n`
+    } finally {
+      migrate.stop()
+    }
   }
 
   // get the name
@@ -0,0 +1,109 @@
+import { arg, Command, format, HelpError, isError } from '@prisma/sdk'
+import chalk from 'chalk'
+import { Migrate } from '../Migrate'
+import { ExperimentalFlagError } from '../utils/experimental'
+
+export class MigrateSql implements Command {
+  public static new(): MigrateSql {
+    return new MigrateSql()
+  }
+
+  // static help template
+  private static help = format(`
+    Print the SQL scripts of a migration without touching the database.
+
+    ${chalk.bold.yellow('WARNING')} ${chalk.bold(
+    "Prisma's migration functionality is currently in an experimental state.",
+  )}
+    ${chalk.dim(
+      'When using any of the commands below you need to explicitly opt-in via the --experimental flag.',
+    )}
+
+    ${chalk.bold('Usage')}
+
+      ${chalk.dim('$')} prisma migrate sql <id|name|timestamp> --experimental
+
+    ${chalk.bold('Options')}
+
+      -h, --help   Displays this help message
+      --up         Only print the up.sql script
+      --down       Only print the down.sql script
+
+    ${chalk.bold('Examples')}
+
+      Print the SQL of a migration
+      ${chalk.dim('$')} prisma migrate sql 20190605204907 --experimental
+
+      Print the SQL to roll back a migration
+      ${chalk.dim(
+        '$',
+      )} prisma migrate sql "add first_name field" --down --experimental
+  `)
+
+  // parse arguments
+  public async parse(argv: string[]): Promise<string | Error> {
+    // parse the arguments according to the spec
+    const args = arg(
+      argv,
+      {
+        '--help': Boolean,
+        '-h': '--help',
+        '--up': Boolean,
+        '--down': Boolean,
+        '--experimental': Boolean,
+        '--schema': String,
+      },
+      false,
+    )
+
+    if (isError(args)) {
+      return this.help(args.message)
+    }
+
+    if (args['--help']) {
+      return this.help()
+    }
+
+    if (!args['--experimental']) {
+      throw new ExperimentalFlagError()
+    }
+
+    if (args._.length === 0) {
+      return this.help(`Please provide the migration to print.`)
+    }
+
+    const migrate = new Migrate(args['--schema'])
+    try {
+      const { id, up, down } = await migrate.getMigrationSql(args._[0])
+
+      const printUp = args['--up'] || !args['--down']
+      const printDown = args['--down'] || !args['--up']
+
+      const scripts: string[] = []
+      if (printUp) {
+        scripts.push(up ?? this.missingScript(id, 'up.sql'))
+      }
+      if (printDown) {
+        scripts.push(down ?? this.missingScript(id, 'down.sql'))
+      }
+
+      return scripts.join('\n')
+    } finally {
+      migrate.stop()
+    }
+  }
+
+  private missingScript(migrationId: string, fileName: string): string {
+    return `-- Migration ${migrationId} has no ${fileName}, as it was saved with an older version of Prisma Migrate.\n`
+  }
+
+  // help message
+  public help(error?: string): string | HelpError {
+    if (error) {
+      return new HelpError(
+        `\n${chalk.bold.red(`!`)} ${error}\n${MigrateSql.help}`,
+      )
+    }
+    return MigrateSql.help
+  }
+}
@@ -0,0 +1,140 @@
+import { arg, Command, format, HelpError, isError } from '@prisma/sdk'
+import chalk from 'chalk'
+import fs from 'fs'
+import path from 'path'
+import rimraf from 'rimraf'
+import { promisify } from 'util'
+import { Migrate, SquashResult } from '../Migrate'
+import { ExperimentalFlagError } from '../utils/experimental'
+import { printFiles } from '../utils/printFiles'
+import { printMigrationId } from '../utils/printMigrationId'
+import { serializeFileMap } from '../utils/serializeFileMap'
+
+const del = promisify(rimraf)
+const writeFile = promisify(fs.writeFile)
+
+export class MigrateSquash implements Command {
+  public static new(): MigrateSquash {
+    return new MigrateSquash()
+  }
+
+  // static help template
+  private static help = format(`
+    Squash a range of migrations into one migration.
+
+    ${chalk.bold.yellow('WARNING')} ${chalk.bold(
+    "Prisma's migration functionality is currently in an experimental state.",
+  )}
+    ${chalk.dim(
+      'When using any of the commands below you need to explicitly opt-in via the --experimental flag.',
+    )}
+
+    ${chalk.bold('Usage')}
+
+      ${chalk.dim(
+        '$',
+      )} prisma migrate squash --from <id> --to <id> --experimental
+
+    Databases, which applied all of the squashed migrations, treat the new migration as applied.
+    Databases, which only applied some of them, need to be migrated down before squashing.
+
+    ${chalk.bold('Options')}
+
+      -h, --help   Displays this help message
+      --from       Id, id prefix, timestamp or name of the first migration to squash
+      --to         Id, id prefix, timestamp or name of the last migration to squash
+      -n, --name   Name of the squashed migration
+
+    ${chalk.bold('Examples')}
+
+      Squash all migrations of 2019 into one
+      ${chalk.dim(
+        '$',
+      )} prisma migrate squash --from 2019 --to 20191231 --name "2019" --experimental
+  `)
+
+  // parse arguments
+  public async parse(argv: string[]): Promise<string | Error> {
+    // parse the arguments according to the spec
+    const args = arg(
+      argv,
+      {
+        '--help': Boolean,
+        '-h': '--help',
+        '--from': String,
+        '--to': String,
+        '--name': String,
+        '-n': '--name',
+        '--experimental': Boolean,
+        '--schema': String,
+      },
+      false,
+    )
+
+    if (isError(args)) {
+      return this.help(args.message)
+    }
+
+    if (args['--help']) {
+      return this.help()
+    }
+
+    if (!args['--experimental']) {
+      throw new ExperimentalFlagError()
+    }
+
+    if (!args['--from'] || !args['--to']) {
+      return this.help(
+        `Please provide the range of migrations to squash with ${chalk.bold(
+          '--from',
+        )} and ${chalk.bold('--to')}.`,
+      )
+    }
+
+    const migrate = new Migrate(args['--schema'])
+    let result: SquashResult
+    try {
+      result = await migrate.squash({
+        from: args['--from'],
+        to: args['--to'],
+        name: args['--name'],
+      })
+    } finally {
+      migrate.stop()
+    }
+    const { migrationId, files, squashedMigrations, newLockFile } = result
+
+    for (const id of squashedMigrations) {
+      await del(path.join(migrate.migrationsDir, id))
+    }
+    await serializeFileMap(files, path.join(migrate.migrationsDir, migrationId))
+    await writeFile(
+      path.join(migrate.migrationsDir, 'migrate.lock'),
+      newLockFile,
+    )
+
+    // the down steps can only be inferred from a database,
+    // which didn't apply any migration after the squashed ones
+    const downHint = files['down.sql']
+      ? ''
+      : `\nThe database applied migrations after the squashed ones, so no ${chalk.bold(
+          'down.sql',
+        )} was created.\n`
+
+    return `\nSquashed ${
+      squashedMigrations.length
+    } migrations into ${printMigrationId(migrationId)} in\n\n${chalk.dim(
+      printFiles(`migrations/${migrationId}`, files),
+    )}\n${downHint}`
+  }
+
+  // help message
+  public help(error?: string): string | HelpError {
+    if (error) {
+      return new HelpError(
+        `\n${chalk.bold.red(`!`)} ${error}\n${MigrateSquash.help}`,
+      )
+    }
+    return MigrateSquash.help
+  }
+}
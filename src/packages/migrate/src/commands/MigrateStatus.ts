@@ -0,0 +1,112 @@
+import { arg, Command, format, HelpError, isError } from '@prisma/sdk'
+import chalk from 'chalk'
+import isCi from 'is-ci'
+import { Migrate } from '../Migrate'
+import { ExperimentalFlagError } from '../utils/experimental'
+import { getStatusExitCode } from '../utils/getMigrationStatus'
+import { printMigrationStatus } from '../utils/printMigrationStatus'
+
+export class MigrateStatus implements Command {
+  public static new(): MigrateStatus {
+    return new MigrateStatus()
+  }
+
+  // static help template
+  private static help = format(`
+    Show which migrations are applied to your database.
+
+    ${chalk.bold.yellow('WARNING')} ${chalk.bold(
+    "Prisma's migration functionality is currently in an experimental state.",
+  )}
+    ${chalk.dim(
+      'When using any of the commands below you need to explicitly opt-in via the --experimental flag.',
+    )}
+
+    ${chalk.bold('Usage')}
+
+      ${chalk.dim('$')} prisma migrate status --experimental
+
+    Compares the local migrations with the ${chalk.bold(
+      'migrate.lock',
+    )} file and the database
+    and lists applied, pending, failed and unknown migrations.
+    In CI, the command exits with code 1 when the database is not up to date.
+
+    ${chalk.bold('Options')}
+
+      -h, --help    Displays this help message
+      --json        Print the status as JSON
+      --exit-code   Exit with code 1 when the database is not up to date, also outside of CI
+
+    ${chalk.bold('Examples')}
+
+      Show the status of the migrations
+      ${chalk.dim('$')} prisma migrate status --experimental
+
+      Show the status as JSON
+      ${chalk.dim('$')} prisma migrate status --json --experimental
+
+      Fail a script when the database is not up to date
+      ${chalk.dim('$')} prisma migrate status --exit-code --experimental
+  `)
+
+  // parse arguments
+  public async parse(argv: string[]): Promise<string | Error> {
+    // parse the arguments according to the spec
+    const args = arg(
+      argv,
+      {
+        '--help': Boolean,
+        '-h': '--help',
+        '--json': Boolean,
+        '--exit-code': Boolean,
+        '--experimental': Boolean,
+        '--schema': String,
+      },
+      false,
+    )
+
+    if (isError(args)) {
+      return this.help(args.message)
+    }
+
+    if (args['--help']) {
+      return this.help()
+    }
+
+    if (!args['--experimental']) {
+      throw new ExperimentalFlagError()
+    }
+
+    const migrate = new Migrate(args['--schema'])
+    try {
+      const status = await migrate.status()
+
+      const exitCode = getStatusExitCode(status, {
+        ci: isCi,
+        exitCode: Boolean(args['--exit-code']),
+      })
+      if (exitCode !== 0) {
+        process.exitCode = exitCode
+      }
+
+      if (args['--json']) {
+        return JSON.stringify(status, null, 2)
+      }
+
+      return printMigrationStatus(status)
+    } finally {
+      migrate.stop()
+    }
+  }
+
+  // help message
+  public help(error?: string): string | HelpError {
+    if (error) {
+      return new HelpError(
+        `\n${chalk.bold.red(`!`)} ${error}\n${MigrateStatus.help}`,
+      )
+    }
+    return MigrateStatus.help
+  }
+}
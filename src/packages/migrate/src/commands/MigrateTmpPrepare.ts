@@ -4,6 +4,7 @@ import Debug from '@prisma/debug'
 import { Migrate } from '../Migrate'
 import { ensureDatabaseExists } from '../utils/ensureDatabaseExists'
 import { occupyPath } from '../utils/occupyPath'
+import { findSeedScript, runSeed } from '../utils/seed'
 const debug = Debug('tmp-prepare')
 
 /**
@@ -32,13 +33,20 @@ export class MigrateTmpPrepare implements Command {
 
     const migrate = new Migrate()
     debug('initialized migrate')
-    await ensureDatabaseExists('dev', false, true)
+    const created = await ensureDatabaseExists('dev', false, true)
 
     await migrate.up({
       short: true,
       autoApprove: true,
     })
 
+    // only seed new databases, so existing data isn't seeded twice
+    const seedPath = created ? await findSeedScript() : undefined
+    if (seedPath) {
+      debug(`running seed ${seedPath}`)
+      await runSeed(seedPath)
+    }
+
     await migrate.watchUp({
       providerAliases: {},
       autoApprove: true,
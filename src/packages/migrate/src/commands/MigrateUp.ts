@@ -3,6 +3,8 @@ import chalk from 'chalk'
 import { Migrate, UpOptions } from '../Migrate'
 import { ensureDatabaseExists } from '../utils/ensureDatabaseExists'
 import { ExperimentalFlagError } from '../utils/experimental'
+import { isMigrationIncrement } from '../utils/findMigration'
+import { printJsonError } from '../utils/printJsonResult'
 
 export class MigrateUp implements Command {
   public static new(): MigrateUp {
@@ -26,7 +28,9 @@ export class MigrateUp implements Command {
 
     ${chalk.bold('Arguments')}
 
-      [<inc>]   go up by an increment [default: latest]
+      [<inc>]         go up by an increment [default: latest]
+      [<name>]        go up to the migration with this id, id prefix or name
+      [<timestamp>]   go up to the migration with this timestamp
 
     ${chalk.bold('Options')}
 
@@ -34,6 +38,9 @@ export class MigrateUp implements Command {
       -h, --help        Displays this help message
       -p, --preview     Preview the migration changes
       -c, --create-db   Create the database in case it doesn't exist
+      -n, --name        Name of the migration to go up to
+      --force           Ignore changed or missing migrations in the migrate.lock file
+      --json            Only print a machine-readable result
 
     ${chalk.bold('Examples')}
 
@@ -73,6 +80,10 @@ export class MigrateUp implements Command {
         '--auto-approve': Boolean,
         '--experimental': Boolean,
         '--schema': String,
+        '--name': String,
+        '-n': '--name',
+        '--force': Boolean,
+        '--json': Boolean,
       },
       false,
     )
@@ -95,30 +106,50 @@ export class MigrateUp implements Command {
       preview: args['--preview'],
       verbose: args['--verbose'],
       autoApprove: args['--auto-approve'],
+      force: args['--force'],
+      json: args['--json'],
+    }
+
+    if (args._.length > 0 && args['--name']) {
+      return this.help(
+        `Please either provide a migration or ${chalk.bold(
+          '--name',
+        )}, not both.`,
+      )
     }
 
     if (args._.length > 0) {
       const thisArg = args._[0]
-      const maybeNumber = parseInt(thisArg, 10)
 
-      // in this case it's a migration id
-      if (isNaN(maybeNumber) || typeof maybeNumber !== 'number') {
-        throw new Error(`Invalid migration step ${maybeNumber}`)
+      // small numbers are increments, anything else identifies a migration
+      if (isMigrationIncrement(thisArg)) {
+        options.n = parseInt(thisArg, 10)
       } else {
-        options.n = maybeNumber
+        options.target = thisArg
       }
+    } else if (args['--name']) {
+      options.target = args['--name']
     }
 
-    await ensureDatabaseExists(
-      'apply',
-      true,
-      args['--create-db'],
-      args['--schema'],
-    )
+    const before = Date.now()
+    try {
+      await ensureDatabaseExists(
+        'apply',
+        true,
+        args['--create-db'],
+        args['--schema'],
+        args['--json'],
+      )
 
-    const result = await migrate.up(options)
-    migrate.stop()
-    return result
+      return await migrate.up(options)
+    } catch (e) {
+      if (args['--json']) {
+        return printJsonError('up', e, before)
+      }
+      throw e
+    } finally {
+      migrate.stop()
+    }
   }
 
   // help message
@@ -5,10 +5,23 @@ export { MigrateCommand } from './commands/MigrateCommand'
 export { MigrateSave } from './commands/MigrateSave'
 export { MigrateUp } from './commands/MigrateUp'
 export { MigrateDown } from './commands/MigrateDown'
+export { MigrateStatus } from './commands/MigrateStatus'
+export { MigrateSql } from './commands/MigrateSql'
+export { MigrateResolve } from './commands/MigrateResolve'
+export { MigrateReset } from './commands/MigrateReset'
+export { MigrateDiff } from './commands/MigrateDiff'
+export { MigrateSquash } from './commands/MigrateSquash'
+export { DbCommand } from './commands/DbCommand'
+export { DbSeed } from './commands/DbSeed'
 export { MigrateTmpPrepare } from './commands/MigrateTmpPrepare'
 export { StudioCommand } from './commands/StudioCommand'
 export { default as byline } from './utils/byline'
-export { canConnectToDatabase, createDatabase } from './MigrateEngineCommands'
+export {
+  canConnectToDatabase,
+  createDatabase,
+  dropDatabase,
+} from './MigrateEngineCommands'
 export { handlePanic } from './utils/handlePanic'
+export { findSeedScript, runSeed } from './utils/seed'
 
 export * from './types'
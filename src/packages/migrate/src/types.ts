@@ -1,46 +1,61 @@
-export type DatamodelStep = CreateModelStep | CreateFieldStep
-
-export interface CreateModelStep {
-  stepType: 'CreateModel'
-  name: string
-  embedded: boolean
+/**
+ * A change of the datamodel as returned by the migration engine
+ */
+export type DatamodelStep =
+  | ModelStep
+  | FieldStep
+  | EnumStep
+  | DirectiveStep
+  | ArgumentStep
+
+export interface ModelStep {
+  tag: 'CreateModel' | 'UpdateModel' | 'DeleteModel'
+  model: string
+  newName?: string
 }
 
-export interface CreateFieldStep {
-  stepType: 'CreateField'
+export interface FieldStep {
+  tag: 'CreateField' | 'UpdateField' | 'DeleteField'
   model: string
-  name: string
-  type: FieldType
-  arity: FieldArity
-  isUnique: boolean
+  field: string
+  type?: string
+  arity?: FieldArity
+  newName?: string
 }
 
-export enum PrimitiveType {
-  String = 'String',
-  Int = 'Int',
-  Float = 'Float',
-  Boolean = 'Boolean',
+export enum FieldArity {
+  required = 'Required',
+  list = 'List',
+  optional = 'Optional',
 }
 
-export enum FieldArity {
-  required = 'required',
-  list = 'list',
-  optional = 'optional',
+export interface EnumStep {
+  tag: 'CreateEnum' | 'UpdateEnum' | 'DeleteEnum'
+  enum: string
+  values?: string[]
+  newName?: string
 }
 
-export type FieldType = BaseFieldType | RelationFieldType
+/**
+ * The model, field, enum or enum value a directive like `@unique` belongs to
+ */
+export type DirectivePath =
+  | { tag: 'Model'; model: string }
+  | { tag: 'Field'; model: string; field: string }
+  | { tag: 'Enum'; enum: string }
+  | { tag: 'EnumValue'; enum: string; value: string }
 
-export interface BaseFieldType {
-  Base: PrimitiveType
+export interface DirectiveStep {
+  tag: 'CreateDirective' | 'DeleteDirective'
+  location: { path: DirectivePath; directive: string }
 }
 
-export interface RelationFieldType {
-  Relation: {
-    to: string
-    to_field: string | null
-    name: string | null
-    on_delete: string
-  }
+export interface ArgumentStep {
+  tag: 'CreateArgument' | 'UpdateArgument' | 'DeleteArgument'
+  location: { tag: 'Directive'; path: DirectivePath; directive: string }
+  argument: string
+  value?: string
+  newValue?: string
 }
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
@@ -156,6 +171,11 @@ export interface FileMap {
 export interface LockFile {
   localMigrations: string[]
   remoteMigrations: string[]
+  /**
+   * Checksums of the migration folders by migration id.
+   * Lock files of v1 don't contain checksums.
+   */
+  checksums: Dictionary<string>
   localBranch?: string
   remoteBranch?: string
   // TODO: add the conflicts here
@@ -168,6 +188,11 @@ export interface Dictionary<T> {
 export interface LocalMigration extends Migration {
   afterFilePath?: string
   beforeFilePath?: string
+  checksum?: string
+  /**
+   * Ids of the migrations, which were squashed into this one
+   */
+  squashedMigrations?: string[]
 }
 
 export interface Migration {
@@ -1,6 +1,6 @@
-import { LockFile } from '../types'
+import { Dictionary, LockFile } from '../types'
 
-const header = `# Prisma Migrate lockfile v1\n`
+const header = `# Prisma Migrate lockfile v2\n`
 
 export function deserializeLockFile(file: string): LockFile {
   const lines = file.split('\n').filter((line) => {
@@ -10,6 +10,7 @@ export function deserializeLockFile(file: string): LockFile {
 
   const localMigrations: string[] = []
   const remoteMigrations: string[] = []
+  const checksums: Dictionary<string> = {}
   let localBranch: string | undefined = undefined
   let remoteBranch: string | undefined = undefined
 
@@ -33,25 +34,30 @@ export function deserializeLockFile(file: string): LockFile {
       isMarker = true
     }
     if (!isMarker) {
+      // v2 lines look like "<migration id> <checksum>", v1 lines only contain the id
+      const [migrationId, checksum] = line.trim().split(/\s+/)
+      if (checksum) {
+        checksums[migrationId] = checksum
+      }
       // if we didn't see any marker yet, remote equals local
       if (!sawLocalMarker && !sawRemoteMarker) {
-        localMigrations.push(line)
-        remoteMigrations.push(line)
+        localMigrations.push(migrationId)
+        remoteMigrations.push(migrationId)
       }
       // if we saw the local marker and not yet the divider,
       // these migrations belong to the local branch
       if (sawLocalMarker && !sawDivider) {
-        localMigrations.push(line)
+        localMigrations.push(migrationId)
       }
       // if we saw the divider, it's time for the remoteMigrations
       if (sawLocalMarker && sawDivider) {
-        remoteMigrations.push(line)
+        remoteMigrations.push(migrationId)
       }
       // this case is fairly unlikely but still CAN happen:
       // if there are a few migrations they have in common at the end
       if (sawLocalMarker && sawDivider && sawRemoteMarker) {
-        localMigrations.push(line)
-        remoteMigrations.push(line)
+        localMigrations.push(migrationId)
+        remoteMigrations.push(migrationId)
       }
     }
   }
@@ -59,18 +65,24 @@ export function deserializeLockFile(file: string): LockFile {
   return {
     localMigrations,
     remoteMigrations,
+    checksums,
     localBranch,
     remoteBranch,
   }
 }
 
 export function serializeLockFile(lockFile: LockFile): string {
-  return `${header}\n${lockFile.localMigrations.join('\n')}`
+  const lines = lockFile.localMigrations.map((migrationId) => {
+    const checksum = lockFile.checksums[migrationId]
+    return checksum ? `${migrationId} ${checksum}` : migrationId
+  })
+  return `${header}\n${lines.join('\n')}`
 }
 
 export function initLockFile(): LockFile {
   return {
     localMigrations: [],
     remoteMigrations: [],
+    checksums: {},
   }
 }
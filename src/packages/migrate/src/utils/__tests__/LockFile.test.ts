@@ -20,6 +20,7 @@ describe('LockFile', () => {
   `)
     expect(deserializeLockFile(file)).toMatchInlineSnapshot(`
                   Object {
+                    "checksums": Object {},
                     "localBranch": "HEAD",
                     "localMigrations": Array [
                       "20190528171624-test",
@@ -53,6 +54,7 @@ describe('LockFile', () => {
   `)
     expect(deserializeLockFile(file)).toMatchInlineSnapshot(`
             Object {
+              "checksums": Object {},
               "localBranch": undefined,
               "localMigrations": Array [
                 "20190528171624-test",
@@ -73,6 +75,25 @@ describe('LockFile', () => {
         `)
   })
 
+  test('parse file with checksums', () => {
+    const file = dedent(`
+  # Prisma Migrate lockfile v2
+
+  20190528171624-test 1b4f0e9851971998e732078544c96b36c3d01cedf7caa332359d6f1d83567014
+  20190528171724-test-2
+  `)
+    expect(deserializeLockFile(file)).toEqual({
+      localMigrations: ['20190528171624-test', '20190528171724-test-2'],
+      remoteMigrations: ['20190528171624-test', '20190528171724-test-2'],
+      checksums: {
+        '20190528171624-test':
+          '1b4f0e9851971998e732078544c96b36c3d01cedf7caa332359d6f1d83567014',
+      },
+      localBranch: undefined,
+      remoteBranch: undefined,
+    })
+  })
+
   test('serialize file correctly', () => {
     const lockFile: LockFile = {
       localMigrations: [
@@ -82,14 +103,18 @@ describe('LockFile', () => {
         '20190528171724-test-4',
       ],
       remoteMigrations: [],
+      checksums: {
+        '20190528171624-test': 'a1b2c3',
+        '20190528171724-test-4': 'd4e5f6',
+      },
     }
     expect(serializeLockFile(lockFile)).toMatchInlineSnapshot(`
-      "# Prisma Migrate lockfile v1
+      "# Prisma Migrate lockfile v2
 
-      20190528171624-test
+      20190528171624-test a1b2c3
       20190528171724-test-2
       20190528171624-test-3
-      20190528171724-test-4"
+      20190528171724-test-4 d4e5f6"
     `)
   })
 })
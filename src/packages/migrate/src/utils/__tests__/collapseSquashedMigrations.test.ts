@@ -0,0 +1,60 @@
+import { collapseSquashedMigrations } from '../collapseSquashedMigrations'
+import { LocalMigration } from '../../types'
+
+function local(id: string, squashedMigrations?: string[]): LocalMigration {
+  return { id, datamodel: '', datamodelSteps: [], squashedMigrations }
+}
+
+describe('collapseSquashedMigrations', () => {
+  const localMigrations = [
+    local('20200101000000-init'),
+    local('20200103000000-squashed', [
+      '20200102000000-add-posts',
+      '20200103000000-add-likes',
+    ]),
+    local('20200104000000-add-comments'),
+  ]
+
+  test('collapses the squashed migrations', () => {
+    expect(
+      collapseSquashedMigrations(
+        [
+          { id: '20200101000000-init' },
+          { id: '20200102000000-add-posts' },
+          { id: '20200103000000-add-likes' },
+          { id: '20200104000000-add-comments' },
+        ],
+        localMigrations,
+      ),
+    ).toEqual([
+      { id: '20200101000000-init' },
+      {
+        id: '20200103000000-squashed',
+        squashedIds: ['20200102000000-add-posts', '20200103000000-add-likes'],
+      },
+      { id: '20200104000000-add-comments' },
+    ])
+  })
+
+  test('keeps already squashed migrations', () => {
+    const squashed = [
+      { id: '20200101000000-init' },
+      { id: '20200103000000-squashed' },
+    ]
+
+    expect(collapseSquashedMigrations(squashed, localMigrations)).toEqual(
+      squashed,
+    )
+  })
+
+  test('rejects partially applied squashed migrations', () => {
+    const partial = [
+      { id: '20200101000000-init' },
+      { id: '20200102000000-add-posts' },
+    ]
+
+    expect(() => collapseSquashedMigrations(partial, localMigrations)).toThrow(
+      'The database applied only some of the migrations',
+    )
+  })
+})
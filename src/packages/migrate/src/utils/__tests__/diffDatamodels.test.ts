@@ -0,0 +1,173 @@
+import { DMMF } from '@prisma/generator-helper'
+import { diffDatamodels, hasDifferences } from '../diffDatamodels'
+
+function field(
+  name: string,
+  type: string,
+  options: Partial<DMMF.Field> = {},
+): DMMF.Field {
+  return {
+    kind: 'scalar',
+    name,
+    type,
+    isRequired: true,
+    isList: false,
+    isUnique: false,
+    isId: false,
+    dbNames: null,
+    isGenerated: false,
+    ...options,
+  }
+}
+
+function model(
+  name: string,
+  fields: DMMF.Field[],
+  options: Partial<DMMF.Model> = {},
+): DMMF.Model {
+  return {
+    name,
+    isEmbedded: false,
+    dbName: null,
+    fields,
+    idFields: [],
+    uniqueFields: [],
+    ...options,
+  }
+}
+
+describe('diffDatamodels', () => {
+  const user = model('User', [
+    field('id', 'Int', { isId: true }),
+    field('email', 'String', { isUnique: true }),
+    field('name', 'String', { isRequired: false }),
+    field('posts', 'Post', { kind: 'relation', isList: true }),
+  ])
+
+  test('no differences', () => {
+    const datamodel = { models: [user], enums: [] }
+    const diff = diffDatamodels(datamodel, datamodel)
+
+    expect(hasDifferences(diff)).toBe(false)
+  })
+
+  test('models, fields and enums', () => {
+    const diff = diffDatamodels(
+      { models: [user, model('Post', [field('id', 'Int')])], enums: [] },
+      {
+        models: [
+          model('User', [
+            field('id', 'Int', { isId: true }),
+            field('email', 'String'),
+            field('age', 'Int'),
+            field('userPosts', 'Post', { kind: 'relation', isList: true }),
+          ]),
+          model('Like', [field('id', 'Int')]),
+        ],
+        enums: [{ name: 'Role', values: [] }],
+      },
+    )
+
+    expect(diff).toEqual({
+      addedModels: ['Like'],
+      removedModels: ['Post'],
+      changedModels: [
+        {
+          model: 'User',
+          addedFields: ['age'],
+          removedFields: ['name'],
+          changedFields: [
+            { field: 'email', from: 'String @unique', to: 'String' },
+          ],
+          addedAttributes: [],
+          removedAttributes: [],
+        },
+      ],
+      addedEnums: ['Role'],
+      removedEnums: [],
+      changedEnums: [],
+    })
+    expect(hasDifferences(diff)).toBe(true)
+  })
+  test('defaults, enum values and attributes', () => {
+    const diff = diffDatamodels(
+      {
+        models: [
+          model(
+            'Like',
+            [
+              field('userId', 'Int'),
+              field('postId', 'Int'),
+              field('role', 'Role', { kind: 'enum', default: 'USER' }),
+              field('createdAt', 'DateTime', {
+                default: { name: 'now', returnType: 'DateTime', args: [] },
+              }),
+            ],
+            { idFields: ['userId', 'postId'] },
+          ),
+        ],
+        enums: [
+          {
+            name: 'Role',
+            values: [
+              { name: 'USER', dbName: 'USER' },
+              { name: 'ADMIN', dbName: 'ADMIN' },
+            ],
+          },
+        ],
+      },
+      {
+        models: [
+          model(
+            'Like',
+            [
+              field('userId', 'Int'),
+              field('postId', 'Int'),
+              field('role', 'Role', { kind: 'enum', default: 'ADMIN' }),
+              field('createdAt', 'DateTime'),
+            ],
+            { dbName: 'likes', uniqueFields: [['userId', 'postId']] },
+          ),
+        ],
+        enums: [
+          {
+            name: 'Role',
+            values: [
+              { name: 'USER', dbName: 'USER' },
+              { name: 'ADMIN', dbName: 'admin' },
+            ],
+          },
+        ],
+      },
+    )
+
+    expect(diff.changedModels).toEqual([
+      {
+        model: 'Like',
+        addedFields: [],
+        removedFields: [],
+        changedFields: [
+          {
+            field: 'role',
+            from: 'Role @default(USER)',
+            to: 'Role @default(ADMIN)',
+          },
+          {
+            field: 'createdAt',
+            from: 'DateTime @default(now())',
+            to: 'DateTime',
+          },
+        ],
+        addedAttributes: ['@@map("likes")', '@@unique([userId, postId])'],
+        removedAttributes: ['@@id([userId, postId])'],
+      },
+    ])
+    expect(diff.changedEnums).toEqual([
+      {
+        enum: 'Role',
+        addedValues: ['ADMIN @map("admin")'],
+        removedValues: ['ADMIN'],
+      },
+    ])
+  })
+})
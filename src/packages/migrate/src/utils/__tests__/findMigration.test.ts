@@ -0,0 +1,50 @@
+import { findMigrationIndex, isMigrationIncrement } from '../findMigration'
+import { Migration } from '../../types'
+
+const migrations = [
+  '20190528171624-init',
+  '20190605204907-add-first-name-field',
+  '20190605204955-add-last-name-field',
+].map((id) => ({ id, datamodel: '', datamodelSteps: [] } as Migration))
+
+describe('isMigrationIncrement', () => {
+  test('small numbers are increments', () => {
+    expect(isMigrationIncrement('1')).toBe(true)
+    expect(isMigrationIncrement('12')).toBe(true)
+  })
+
+  test('timestamps and names are no increments', () => {
+    expect(isMigrationIncrement('20190605204907')).toBe(false)
+    expect(isMigrationIncrement('add first_name field')).toBe(false)
+    expect(isMigrationIncrement('1-init')).toBe(false)
+  })
+})
+
+describe('findMigrationIndex', () => {
+  test('id', () => {
+    expect(
+      findMigrationIndex(migrations, '20190605204907-add-first-name-field'),
+    ).toEqual(1)
+  })
+
+  test('timestamp', () => {
+    expect(findMigrationIndex(migrations, '20190605204955')).toEqual(2)
+  })
+
+  test('name', () => {
+    expect(findMigrationIndex(migrations, 'add first name field')).toEqual(1)
+    expect(findMigrationIndex(migrations, 'init')).toEqual(0)
+  })
+
+  test('ambiguous prefix', () => {
+    expect(() => findMigrationIndex(migrations, '2019060520')).toThrow(
+      'is ambiguous, as it matches these migrations: 20190605204907-add-first-name-field, 20190605204955-add-last-name-field.',
+    )
+  })
+
+  test('unknown migration', () => {
+    expect(() => findMigrationIndex(migrations, 'remove users')).toThrow(
+      'Could not find a migration matching',
+    )
+  })
+})
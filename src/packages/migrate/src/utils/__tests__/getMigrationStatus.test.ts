@@ -0,0 +1,114 @@
+import {
+  getMigrationStatus,
+  getStatusExitCode,
+  needsAttention,
+} from '../getMigrationStatus'
+import { EngineResults } from '../../types'
+
+const { MigrationStatus } = EngineResults
+
+function remote(
+  id: string,
+  status = MigrationStatus.MigrationSuccess,
+): EngineResults.StoredMigration {
+  return { id, status, datamodel: '', datamodelSteps: [], databaseSteps: [] }
+}
+
+const localMigrationIds = [
+  '20200101000000-init',
+  '20200102000000-add-posts',
+  '20200103000000-add-likes',
+]
+
+describe('getMigrationStatus', () => {
+  test('up to date', () => {
+    const status = getMigrationStatus({
+      localMigrationIds,
+      lockFileMigrationIds: localMigrationIds,
+      remoteMigrations: localMigrationIds.map((id) => remote(id)),
+    })
+
+    expect(status).toEqual({
+      applied: localMigrationIds,
+      pending: [],
+      failed: [],
+      unknownRemote: [],
+      notInLockFile: [],
+      missingLocally: [],
+      diverged: false,
+    })
+    expect(needsAttention(status)).toBe(false)
+  })
+
+  test('pending, failed and watch migrations', () => {
+    const status = getMigrationStatus({
+      localMigrationIds,
+      lockFileMigrationIds: localMigrationIds,
+      remoteMigrations: [
+        remote('20200101000000-init'),
+        remote('20200102000000-add-posts', MigrationStatus.MigrationFailure),
+        remote('watch-20200102000000'),
+      ],
+    })
+
+    expect(status.applied).toEqual(['20200101000000-init'])
+    expect(status.pending).toEqual(['20200103000000-add-likes'])
+    expect(status.failed).toEqual([
+      {
+        id: '20200102000000-add-posts',
+        status: MigrationStatus.MigrationFailure,
+        errors: [],
+      },
+    ])
+    expect(status.unknownRemote).toEqual([])
+    expect(needsAttention(status)).toBe(true)
+  })
+
+  test('diverged history and lock file', () => {
+    const status = getMigrationStatus({
+      localMigrationIds,
+      lockFileMigrationIds: [
+        '20200101000000-init',
+        '20200102000000-add-posts',
+        '20200102100000-add-comments',
+      ],
+      remoteMigrations: [
+        remote('20200101000000-init'),
+        remote('20200102100000-add-comments'),
+      ],
+    })
+
+    expect(status.applied).toEqual(['20200101000000-init'])
+    expect(status.unknownRemote).toEqual(['20200102100000-add-comments'])
+    expect(status.notInLockFile).toEqual(['20200103000000-add-likes'])
+    expect(status.missingLocally).toEqual(['20200102100000-add-comments'])
+    expect(status.diverged).toBe(true)
+  })
+})
+
+describe('getStatusExitCode', () => {
+  const upToDate = getMigrationStatus({
+    localMigrationIds,
+    lockFileMigrationIds: localMigrationIds,
+    remoteMigrations: localMigrationIds.map((id) => remote(id)),
+  })
+  const pending = getMigrationStatus({
+    localMigrationIds,
+    lockFileMigrationIds: localMigrationIds,
+    remoteMigrations: [remote('20200101000000-init')],
+  })
+
+  test('fail in CI', () => {
+    expect(getStatusExitCode(pending, { ci: true, exitCode: false })).toBe(1)
+    expect(getStatusExitCode(upToDate, { ci: true, exitCode: false })).toBe(0)
+  })
+
+  test('fail outside of CI with --exit-code', () => {
+    expect(getStatusExitCode(pending, { ci: false, exitCode: true })).toBe(1)
+    expect(getStatusExitCode(upToDate, { ci: false, exitCode: true })).toBe(0)
+  })
+
+  test('succeed outside of CI without --exit-code', () => {
+    expect(getStatusExitCode(pending, { ci: false, exitCode: false })).toBe(0)
+  })
+})
@@ -0,0 +1,57 @@
+import { getConflictingChanges, getLockFileConflict } from '../lockFileConflict'
+import { deserializeLockFile } from '../LockFile'
+import { DatamodelStep } from '../../types'
+
+describe('lockFileConflict', () => {
+  test('splits the migrations by branch', () => {
+    const lockFile = deserializeLockFile(`# Prisma Migrate lockfile v2
+
+20200101000000-init
+<<<<<<< HEAD
+20200103000000-add-likes
+=======
+20200102000000-add-posts
+20200104000000-add-comments
+>>>>>>> master
+`)
+
+    expect(getLockFileConflict(lockFile)).toEqual({
+      common: ['20200101000000-init'],
+      local: ['20200103000000-add-likes'],
+      remote: ['20200102000000-add-posts', '20200104000000-add-comments'],
+    })
+  })
+
+  test('finds models and fields changed on both branches', () => {
+    const localSteps: DatamodelStep[] = [
+      { tag: 'CreateField', model: 'User', field: 'email' },
+      { tag: 'CreateModel', model: 'Like' },
+      { tag: 'UpdateField', model: 'Post', field: 'title' },
+      { tag: 'UpdateEnum', enum: 'Role' },
+    ]
+    const remoteSteps: DatamodelStep[] = [
+      { tag: 'CreateField', model: 'User', field: 'email' },
+      { tag: 'CreateField', model: 'Like', field: 'id' },
+      {
+        tag: 'CreateDirective',
+        location: {
+          path: { tag: 'Field', model: 'Post', field: 'body' },
+          directive: 'default',
+        },
+      },
+      {
+        tag: 'CreateDirective',
+        location: {
+          path: { tag: 'EnumValue', enum: 'Role', value: 'ADMIN' },
+          directive: 'map',
+        },
+      },
+    ]
+
+    expect(getConflictingChanges(localSteps, remoteSteps)).toEqual([
+      'Like',
+      'Role',
+      'User.email',
+    ])
+  })
+})
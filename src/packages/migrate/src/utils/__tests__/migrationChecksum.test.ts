@@ -0,0 +1,62 @@
+import {
+  getChecksumMismatches,
+  getMigrationChecksum,
+} from '../migrationChecksum'
+import { LocalMigration } from '../../types'
+
+function local(id: string, checksum: string): LocalMigration {
+  return { id, checksum, datamodel: '', datamodelSteps: [] }
+}
+
+describe('migrationChecksum', () => {
+  test('ignores generated files and line endings', () => {
+    const checksum = getMigrationChecksum({
+      'steps.json': '{\n  "steps": []\n}',
+      'schema.prisma': 'model User {\n  id Int @id\n}',
+    })
+
+    expect(
+      getMigrationChecksum({
+        'steps.json': '{\r\n  "steps": []\r\n}',
+        'schema.prisma': 'model User {\r\n  id Int @id\r\n}',
+        'README.md': '# Migration',
+        'up.sql': 'CREATE TABLE "User" ("id" INTEGER);',
+      }),
+    ).toEqual(checksum)
+    expect(
+      getMigrationChecksum({
+        'steps.json': '{\n  "steps": [{}]\n}',
+        'schema.prisma': 'model User {\n  id Int @id\n}',
+      }),
+    ).not.toEqual(checksum)
+  })
+
+  test('finds edited and missing migrations', () => {
+    const mismatches = getChecksumMismatches(
+      {
+        localMigrations: [
+          '20200101000000-init',
+          '20200102000000-add-posts',
+          '20200103000000-add-likes',
+          '20200104000000-add-comments',
+        ],
+        remoteMigrations: [],
+        checksums: {
+          '20200101000000-init': 'a',
+          '20200102000000-add-posts': 'b',
+          '20200104000000-add-comments': 'd',
+        },
+      },
+      [
+        local('20200101000000-init', 'a'),
+        local('20200102000000-add-posts', 'changed'),
+        local('20200103000000-add-likes', 'c'),
+      ],
+    )
+
+    expect(mismatches).toEqual({
+      edited: ['20200102000000-add-posts'],
+      missing: ['20200104000000-add-comments'],
+    })
+  })
+})
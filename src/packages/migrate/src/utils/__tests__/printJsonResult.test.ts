@@ -0,0 +1,57 @@
+import chalk from 'chalk'
+import { MigrateError, MigrateExitCode } from '../errors'
+import { getMigrationJsonResult, printJsonError } from '../printJsonResult'
+
+describe('printJsonResult', () => {
+  afterEach(() => {
+    process.exitCode = undefined
+  })
+
+  test('prints the raw sql of the database steps', () => {
+    expect(
+      getMigrationJsonResult({
+        id: '20200101000000-init',
+        databaseSteps: [
+          {
+            RawSql: 'CREATE TABLE "User" ("id" integer)',
+            raw: 'CREATE TABLE "User" ("id" integer)',
+          },
+        ],
+        warnings: [{ description: 'You are about to drop the table `Post`.' }],
+      }),
+    ).toEqual({
+      id: '20200101000000-init',
+      databaseSteps: ['CREATE TABLE "User" ("id" integer)'],
+      warnings: [{ description: 'You are about to drop the table `Post`.' }],
+    })
+  })
+
+  test('uses the exit code of the failure class', () => {
+    const result = JSON.parse(
+      printJsonError(
+        'up',
+        new MigrateError(
+          `Run ${chalk.bold('prisma migrate resolve')}`,
+          MigrateExitCode.LockFileConflict,
+        ),
+        Date.now(),
+      ),
+    )
+
+    expect(process.exitCode).toEqual(MigrateExitCode.LockFileConflict)
+    expect(result.success).toEqual(false)
+    expect(result.error).toEqual({
+      exitCode: MigrateExitCode.LockFileConflict,
+      message: 'Run prisma migrate resolve',
+    })
+  })
+
+  test('falls back to the unknown error exit code', () => {
+    const result = JSON.parse(
+      printJsonError('down', new Error('Something went wrong'), Date.now()),
+    )
+
+    expect(process.exitCode).toEqual(MigrateExitCode.UnknownError)
+    expect(result.error.exitCode).toEqual(MigrateExitCode.UnknownError)
+  })
+})
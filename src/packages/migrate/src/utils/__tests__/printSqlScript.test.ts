@@ -0,0 +1,21 @@
+import { printSqlScript } from '../printDatabaseSteps'
+import { DatabaseStep } from '../../types'
+
+describe('printSqlScript', () => {
+  test('terminates every statement', () => {
+    const steps = [
+      { RawSql: 'PRAGMA foreign_keys=OFF;', raw: 'PRAGMA foreign_keys=OFF;' },
+      { RawSql: '', raw: '  CREATE TABLE "User" ("id" INTEGER)\n' },
+      { RawSql: '', raw: '' },
+    ] as DatabaseStep[]
+
+    expect(printSqlScript('20200101000000-init', steps)).toEqual(
+      `-- Migration 20200101000000-init
+
+PRAGMA foreign_keys=OFF;
+
+CREATE TABLE "User" ("id" INTEGER);
+`,
+    )
+  })
+})
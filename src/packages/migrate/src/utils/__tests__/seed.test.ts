@@ -0,0 +1,46 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import rimraf from 'rimraf'
+import { findSeedScript } from '../seed'
+
+describe('findSeedScript', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prisma-seed-'))
+    fs.mkdirSync(path.join(dir, 'prisma'))
+    fs.writeFileSync(path.join(dir, 'prisma', 'schema.prisma'), '')
+  })
+
+  afterEach(() => {
+    rimraf.sync(dir)
+  })
+
+  test('finds a seed beside the schema', async () => {
+    fs.writeFileSync(path.join(dir, 'prisma', 'seed.ts'), '')
+
+    expect(
+      await findSeedScript(path.join(dir, 'prisma', 'schema.prisma'), dir),
+    ).toEqual(path.join(dir, 'prisma', 'seed.ts'))
+  })
+
+  test('prefers the seed configured in package.json', async () => {
+    fs.writeFileSync(path.join(dir, 'prisma', 'seed.ts'), '')
+    fs.writeFileSync(path.join(dir, 'seed.js'), '')
+    fs.writeFileSync(
+      path.join(dir, 'package.json'),
+      JSON.stringify({ prisma: { seed: 'seed.js' } }),
+    )
+
+    expect(
+      await findSeedScript(path.join(dir, 'prisma', 'schema.prisma'), dir),
+    ).toEqual(path.join(dir, 'seed.js'))
+  })
+
+  test('returns undefined without a seed', async () => {
+    expect(
+      await findSeedScript(path.join(dir, 'prisma', 'schema.prisma'), dir),
+    ).toBeUndefined()
+  })
+})
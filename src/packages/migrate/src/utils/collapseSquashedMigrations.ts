@@ -0,0 +1,62 @@
+import chalk from 'chalk'
+import { LocalMigration } from '../types'
+import { MigrateError, MigrateExitCode } from './errors'
+
+export type CollapsedMigration<T> = T & {
+  /**
+   * Ids of the migrations in the database, which were collapsed into this one
+   */
+  squashedIds?: string[]
+}
+
+/**
+ * Databases, which applied the migrations before they were squashed, don't
+ * know the squashed migration. This replaces the applied migrations with the
+ * squashed one, so they can be compared with the local migrations.
+ * Databases, which applied only some of the squashed migrations, can't be migrated.
+ */
+export function collapseSquashedMigrations<T extends { id: string }>(
+  remoteMigrations: T[],
+  localMigrations: LocalMigration[],
+): CollapsedMigration<T>[] {
+  let result: CollapsedMigration<T>[] = remoteMigrations
+
+  for (const localMigration of localMigrations) {
+    const squashedIds = localMigration.squashedMigrations
+    if (!squashedIds || squashedIds.length === 0) {
+      continue
+    }
+
+    const start = result.findIndex((m) => m.id === squashedIds[0])
+    const range = result.slice(start, start + squashedIds.length)
+    const hasAllSquashed =
+      start > -1 &&
+      range.length === squashedIds.length &&
+      range.every((m, index) => m.id === squashedIds[index])
+
+    if (start > -1 && !hasAllSquashed) {
+      throw new MigrateError(
+        `The database applied only some of the migrations, which were squashed into ${chalk.bold(
+          localMigration.id,
+        )}. Please apply the remaining ones of ${squashedIds.join(
+          ', ',
+        )} with the migrations from before the squash first.`,
+        MigrateExitCode.HistoryMismatch,
+      )
+    }
+
+    if (hasAllSquashed) {
+      result = [
+        ...result.slice(0, start),
+        {
+          ...range[range.length - 1],
+          id: localMigration.id,
+          squashedIds,
+        },
+        ...result.slice(start + squashedIds.length),
+      ]
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,188 @@
+import { DMMF } from '@prisma/generator-helper'
+import { Dictionary } from '../types'
+
+export interface FieldChange {
+  field: string
+  from: string
+  to: string
+}
+
+export interface ModelDiff {
+  model: string
+  addedFields: string[]
+  removedFields: string[]
+  changedFields: FieldChange[]
+  addedAttributes: string[]
+  removedAttributes: string[]
+}
+
+export interface EnumDiff {
+  enum: string
+  addedValues: string[]
+  removedValues: string[]
+}
+
+export interface DatamodelDiff {
+  addedModels: string[]
+  removedModels: string[]
+  changedModels: ModelDiff[]
+  addedEnums: string[]
+  removedEnums: string[]
+  changedEnums: EnumDiff[]
+}
+
+/**
+ * Compares the models, scalar fields and enums of two datamodels.
+ * Relation fields are left out, as introspection names them differently
+ * than they are named in the schema.
+ * Indexes (`@@index`) are not part of the DMMF, so they can't be compared.
+ */
+export function diffDatamodels(
+  from: DMMF.Datamodel,
+  to: DMMF.Datamodel,
+): DatamodelDiff {
+  const fromModels = from.models.map((m) => m.name)
+  const toModels = to.models.map((m) => m.name)
+  const fromEnums = from.enums.map((e) => e.name)
+  const toEnums = to.enums.map((e) => e.name)
+
+  const changedModels = from.models
+    .map((fromModel) => {
+      const toModel = to.models.find((m) => m.name === fromModel.name)
+      return toModel ? diffModels(fromModel, toModel) : undefined
+    })
+    .filter(
+      (diff): diff is ModelDiff =>
+        diff !== undefined &&
+        (diff.addedFields.length > 0 ||
+          diff.removedFields.length > 0 ||
+          diff.changedFields.length > 0 ||
+          diff.addedAttributes.length > 0 ||
+          diff.removedAttributes.length > 0),
+    )
+
+  const changedEnums = from.enums
+    .map((fromEnum) => {
+      const toEnum = to.enums.find((e) => e.name === fromEnum.name)
+      return toEnum ? diffEnums(fromEnum, toEnum) : undefined
+    })
+    .filter(
+      (diff): diff is EnumDiff =>
+        diff !== undefined &&
+        (diff.addedValues.length > 0 || diff.removedValues.length > 0),
+    )
+
+  return {
+    addedModels: toModels.filter((name) => !fromModels.includes(name)),
+    removedModels: fromModels.filter((name) => !toModels.includes(name)),
+    changedModels,
+    addedEnums: toEnums.filter((name) => !fromEnums.includes(name)),
+    removedEnums: fromEnums.filter((name) => !toEnums.includes(name)),
+    changedEnums,
+  }
+}
+
+export function hasDifferences(diff: DatamodelDiff): boolean {
+  return (
+    diff.addedModels.length > 0 ||
+    diff.removedModels.length > 0 ||
+    diff.changedModels.length > 0 ||
+    diff.addedEnums.length > 0 ||
+    diff.removedEnums.length > 0 ||
+    diff.changedEnums.length > 0
+  )
+}
+
+function diffModels(from: DMMF.Model, to: DMMF.Model): ModelDiff {
+  const fromFields = getFieldSignatures(from)
+  const toFields = getFieldSignatures(to)
+  const fromAttributes = getModelAttributes(from)
+  const toAttributes = getModelAttributes(to)
+
+  return {
+    model: from.name,
+    addedFields: Object.keys(toFields).filter((name) => !fromFields[name]),
+    removedFields: Object.keys(fromFields).filter((name) => !toFields[name]),
+    changedFields: Object.keys(fromFields)
+      .filter((name) => toFields[name] && toFields[name] !== fromFields[name])
+      .map((name) => ({
+        field: name,
+        from: fromFields[name],
+        to: toFields[name],
+      })),
+    addedAttributes: toAttributes.filter((a) => !fromAttributes.includes(a)),
+    removedAttributes: fromAttributes.filter((a) => !toAttributes.includes(a)),
+  }
+}
+
+function diffEnums(from: DMMF.DatamodelEnum, to: DMMF.DatamodelEnum): EnumDiff {
+  const fromValues = getEnumValues(from)
+  const toValues = getEnumValues(to)
+
+  return {
+    enum: from.name,
+    addedValues: toValues.filter((value) => !fromValues.includes(value)),
+    removedValues: fromValues.filter((value) => !toValues.includes(value)),
+  }
+}
+
+function getFieldSignatures(model: DMMF.Model): Dictionary<string> {
+  const signatures: Dictionary<string> = {}
+  for (const field of model.fields) {
+    // the DMMF reports relation fields as "object"
+    if ((field.kind as string) === 'object' || field.kind === 'relation') {
+      continue
+    }
+    const arity = field.isList ? '[]' : field.isRequired ? '' : '?'
+    const attributes = [
+      field.isId && '@id',
+      field.isUnique && '@unique',
+      field.default !== undefined && `@default(${printDefault(field)})`,
+      field.dbNames &&
+        field.dbNames.length > 0 &&
+        field.dbNames[0] !== field.name &&
+        `@map(${JSON.stringify(field.dbNames[0])})`,
+    ]
+      .filter(Boolean)
+      .join(' ')
+    signatures[field.name] = `${field.type}${arity}${
+      attributes ? ` ${attributes}` : ''
+    }`
+  }
+  return signatures
+}
+
+function printDefault(field: DMMF.Field): string {
+  const value = field.default
+  if (typeof value === 'object') {
+    return `${value.name}(${value.args.join(', ')})`
+  }
+
+  return field.kind === 'enum' ? String(value) : JSON.stringify(value)
+}
+
+function getModelAttributes(model: DMMF.Model): string[] {
+  const attributes: string[] = []
+  if (model.dbName) {
+    attributes.push(`@@map(${JSON.stringify(model.dbName)})`)
+  }
+  if (model.idFields.length > 0) {
+    attributes.push(`@@id([${model.idFields.join(', ')}])`)
+  }
+  for (const fields of model.uniqueFields || []) {
+    attributes.push(`@@unique([${fields.join(', ')}])`)
+  }
+  return attributes
+}
+
+function getEnumValues(datamodelEnum: DMMF.DatamodelEnum): string[] {
+  const values = datamodelEnum.values.map(({ name, dbName }) =>
+    dbName && dbName !== name
+      ? `${name} @map(${JSON.stringify(dbName)})`
+      : name,
+  )
+  if (datamodelEnum.dbName) {
+    values.push(`@@map(${JSON.stringify(datamodelEnum.dbName)})`)
+  }
+  return values
+}
@@ -19,12 +19,7 @@ import { DatabaseCredentials, uriToCredentials } from '@prisma/sdk'
 
 export type MigrateAction = 'create' | 'apply' | 'unapply' | 'dev'
 
-export async function ensureDatabaseExists(
-  action: MigrateAction,
-  killInk: boolean,
-  forceCreate: boolean = false,
-  schemaPath?: string,
-) {
+export async function getActiveDatasource(schemaPath?: string) {
   const datamodel = await getSchema(schemaPath)
   const config = await getConfig({ datamodel })
   const activeDatasource =
@@ -37,6 +32,22 @@ export async function ensureDatabaseExists(
     throw new Error(`Couldn't find a datasource in the schema.prisma file`)
   }
 
+  return activeDatasource
+}
+
+/**
+ * Resolves to true, if the database had to be created.
+ * In json mode, there is no one to answer the prompt, so it fails instead.
+ */
+export async function ensureDatabaseExists(
+  action: MigrateAction,
+  killInk: boolean,
+  forceCreate: boolean = false,
+  schemaPath?: string,
+  json: boolean = false,
+): Promise<boolean> {
+  const activeDatasource = await getActiveDatasource(schemaPath)
+
   const schemaDir = (await getSchemaDir(schemaPath))!
 
   const canConnect = await canConnectToDatabase(
@@ -44,7 +55,7 @@ export async function ensureDatabaseExists(
     schemaDir,
   )
   if (canConnect === true) {
-    return
+    return false
   }
   const { code, message } = canConnect
 
@@ -59,6 +70,8 @@ export async function ensureDatabaseExists(
   }
   if (forceCreate) {
     await createDatabase(activeDatasource.url.value, schemaDir)
+  } else if (json) {
+    throw new Error(`${code}: ${message}`)
   } else {
     await interactivelyCreateDatabase(
       activeDatasource.url.value,
@@ -66,6 +79,8 @@ export async function ensureDatabaseExists(
       schemaDir,
     )
   }
+
+  return true
 }
 
 export async function interactivelyCreateDatabase(
@@ -0,0 +1,25 @@
+/**
+ * Exit codes of the migrate commands in JSON mode.
+ * They must stay stable, as CI tools rely on them.
+ */
+export enum MigrateExitCode {
+  Success = 0,
+  UnknownError = 1,
+  LockFileConflict = 2,
+  ChecksumMismatch = 3,
+  HistoryMismatch = 4,
+  DataLoss = 5,
+  MigrationFailed = 6,
+}
+
+export class MigrateError extends Error {
+  constructor(message: string, public readonly exitCode: MigrateExitCode) {
+    super(message)
+  }
+}
+
+export function getExitCode(error: Error): MigrateExitCode {
+  return error instanceof MigrateError
+    ? error.exitCode
+    : MigrateExitCode.UnknownError
+}
@@ -0,0 +1,59 @@
+import chalk from 'chalk'
+import dashify from 'dashify'
+import { Migration } from '../types'
+
+/**
+ * Positional args of `migrate up` and `migrate down` are either an increment,
+ * like `1`, or identify a migration, like `20190605204907`.
+ * Timestamps have 14 digits, so shorter numbers are increments.
+ */
+export function isMigrationIncrement(arg: string): boolean {
+  return /^\d+$/.test(arg) && arg.length < 14
+}
+
+/**
+ * Returns the index of the migration identified by `target`, which can be
+ * the migration id, a prefix of it, its timestamp or its name
+ */
+export function findMigrationIndex(
+  migrations: Migration[],
+  target: string,
+): number {
+  const exactIndex = migrations.findIndex((m) => m.id === target)
+  if (exactIndex !== -1) {
+    return exactIndex
+  }
+
+  const name = dashify(target)
+  const matches = migrations.filter(
+    (m) =>
+      m.id.startsWith(target) ||
+      (name.length > 0 && getMigrationName(m.id) === name),
+  )
+
+  if (matches.length === 0) {
+    throw new Error(
+      `Could not find a migration matching ${chalk.bold(
+        target,
+      )}. Available migrations: ${
+        migrations.map((m) => m.id).join(', ') || 'none'
+      }`,
+    )
+  }
+
+  if (matches.length > 1) {
+    throw new Error(
+      `${chalk.bold(
+        target,
+      )} is ambiguous, as it matches these migrations: ${matches
+        .map((m) => m.id)
+        .join(', ')}. Please provide the full migration id.`,
+    )
+  }
+
+  return migrations.indexOf(matches[0])
+}
+
+function getMigrationName(migrationId: string): string {
+  return migrationId.split('-').slice(1).join('-')
+}
@@ -0,0 +1,116 @@
+import { EngineResults } from '../types'
+import { isWatchMigrationName } from './isWatchMigrationName'
+
+export interface FailedMigration {
+  id: string
+  status: EngineResults.MigrationStatus
+  errors: any[]
+}
+
+export interface MigrationStatusResult {
+  /**
+   * Local migrations, which are applied to the database
+   */
+  applied: string[]
+  /**
+   * Local migrations, which are not applied yet
+   */
+  pending: string[]
+  /**
+   * Migrations, which failed to apply or to roll back
+   */
+  failed: FailedMigration[]
+  /**
+   * Migrations in the database, which don't exist locally
+   */
+  unknownRemote: string[]
+  /**
+   * Local migrations, which are missing in the migrate.lock file
+   */
+  notInLockFile: string[]
+  /**
+   * Migrations in the migrate.lock file, which don't exist locally
+   */
+  missingLocally: string[]
+  /**
+   * The database applied the migrations in a different order than they exist locally
+   */
+  diverged: boolean
+}
+
+interface MigrationStatusInput {
+  localMigrationIds: string[]
+  lockFileMigrationIds: string[]
+  remoteMigrations: EngineResults.StoredMigration[]
+}
+
+const failureStatuses = [
+  EngineResults.MigrationStatus.MigrationFailure,
+  EngineResults.MigrationStatus.RollbackFailure,
+]
+
+/**
+ * Compares the local migrations with the migrate.lock file and the migrations
+ * stored in the database. Watch migrations of `prisma dev` are ignored.
+ */
+export function getMigrationStatus({
+  localMigrationIds,
+  lockFileMigrationIds,
+  remoteMigrations,
+}: MigrationStatusInput): MigrationStatusResult {
+  const remote = remoteMigrations.filter((m) => !isWatchMigrationName(m.id))
+  const appliedRemote = remote.filter(
+    (m) => m.status === EngineResults.MigrationStatus.MigrationSuccess,
+  )
+  const failedRemote = remote.filter((m) => failureStatuses.includes(m.status))
+
+  const appliedIds = appliedRemote.map((m) => m.id)
+  const failedIds = failedRemote.map((m) => m.id)
+
+  return {
+    applied: localMigrationIds.filter((id) => appliedIds.includes(id)),
+    pending: localMigrationIds.filter(
+      (id) => !appliedIds.includes(id) && !failedIds.includes(id),
+    ),
+    failed: failedRemote.map((m) => ({
+      id: m.id,
+      status: m.status,
+      errors: [],
+    })),
+    unknownRemote: [...appliedIds, ...failedIds].filter(
+      (id) => !localMigrationIds.includes(id),
+    ),
+    notInLockFile: localMigrationIds.filter(
+      (id) => !lockFileMigrationIds.includes(id),
+    ),
+    missingLocally: lockFileMigrationIds.filter(
+      (id) => !localMigrationIds.includes(id),
+    ),
+    diverged: appliedIds.some((id, index) => localMigrationIds[index] !== id),
+  }
+}
+
+/**
+ * Whether the database is not in sync with the local migrations
+ */
+export function needsAttention(status: MigrationStatusResult): boolean {
+  return (
+    status.pending.length > 0 ||
+    status.failed.length > 0 ||
+    status.unknownRemote.length > 0 ||
+    status.notInLockFile.length > 0 ||
+    status.missingLocally.length > 0 ||
+    status.diverged
+  )
+}
+
+/**
+ * `prisma migrate status` fails, if the database is not in sync with the local
+ * migrations and it either runs in CI or the exit code is requested with `--exit-code`
+ */
+export function getStatusExitCode(
+  status: MigrationStatusResult,
+  { ci, exitCode }: { ci: boolean; exitCode: boolean },
+): number {
+  return (ci || exitCode) && needsAttention(status) ? 1 : 0
+}
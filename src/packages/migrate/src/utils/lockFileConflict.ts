@@ -0,0 +1,77 @@
+import { DatamodelStep, LockFile } from '../types'
+
+export interface LockFileConflict {
+  /**
+   * Migrations both branches have in common
+   */
+  common: string[]
+  /**
+   * Migrations, which only exist on the local branch
+   */
+  local: string[]
+  /**
+   * Migrations, which only exist on the remote branch
+   */
+  remote: string[]
+}
+
+/**
+ * Splits the migrations of a lock file with merge conflict markers
+ * into the shared history and the migrations of each branch
+ */
+export function getLockFileConflict(lockFile: LockFile): LockFileConflict {
+  const { localMigrations, remoteMigrations } = lockFile
+
+  return {
+    common: localMigrations.filter((id) => remoteMigrations.includes(id)),
+    local: localMigrations.filter((id) => !remoteMigrations.includes(id)),
+    remote: remoteMigrations.filter((id) => !localMigrations.includes(id)),
+  }
+}
+
+/**
+ * Returns the model or field a datamodel step changes, e.g. `User` or `User.email`
+ */
+export function getChangedLocation(step: DatamodelStep): string | undefined {
+  const target = 'location' in step ? step.location.path : step
+
+  if ('field' in target) {
+    return `${target.model}.${target.field}`
+  }
+
+  if ('model' in target) {
+    return target.model
+  }
+
+  if ('value' in target) {
+    return `${target.enum}.${target.value}`
+  }
+
+  return 'enum' in target ? target.enum : undefined
+}
+
+/**
+ * Finds models and fields, which are changed on both branches
+ */
+export function getConflictingChanges(
+  localSteps: DatamodelStep[],
+  remoteSteps: DatamodelStep[],
+): string[] {
+  const remoteLocations = remoteSteps
+    .map(getChangedLocation)
+    .filter((location): location is string => Boolean(location))
+
+  const conflicts = localSteps
+    .map(getChangedLocation)
+    .filter((location): location is string => Boolean(location))
+    .filter((location) =>
+      remoteLocations.some(
+        (remoteLocation) =>
+          remoteLocation === location ||
+          remoteLocation.startsWith(`${location}.`) ||
+          location.startsWith(`${remoteLocation}.`),
+      ),
+    )
+
+  return [...new Set(conflicts)].sort()
+}
@@ -0,0 +1,60 @@
+import crypto from 'crypto'
+import { FileMap, LocalMigration, LockFile } from '../types'
+
+/**
+ * The files of a migration folder, which determine what gets applied.
+ * Generated files like the README.md or the SQL scripts are not part of the checksum.
+ */
+export const checksumFileNames = [
+  'steps.json',
+  'schema.prisma',
+  'datamodel.prisma',
+  'after.sh',
+  'before.sh',
+  'after.ts',
+  'before.ts',
+]
+
+export function getMigrationChecksum(files: FileMap): string {
+  const hash = crypto.createHash('sha256')
+  const fileNames = Object.keys(files)
+    .filter((fileName) => checksumFileNames.includes(fileName))
+    .sort()
+
+  for (const fileName of fileNames) {
+    // normalize line endings, so a checkout on Windows doesn't change the checksum
+    hash.update(`${fileName}\n${files[fileName].replace(/\r\n/g, '\n')}\n`)
+  }
+
+  return hash.digest('hex')
+}
+
+export interface ChecksumMismatches {
+  /**
+   * Local migrations, which were changed after their checksum was recorded in the migrate.lock file
+   */
+  edited: string[]
+  /**
+   * Migrations in the migrate.lock file, which don't exist locally
+   */
+  missing: string[]
+}
+
+export function getChecksumMismatches(
+  lockFile: LockFile,
+  localMigrations: LocalMigration[],
+): ChecksumMismatches {
+  const localMigrationIds = localMigrations.map((m) => m.id)
+
+  return {
+    edited: localMigrations
+      .filter((m) => {
+        const checksum = lockFile.checksums[m.id]
+        return Boolean(checksum && m.checksum && checksum !== m.checksum)
+      })
+      .map((m) => m.id),
+    missing: lockFile.localMigrations.filter(
+      (id) => !localMigrationIds.includes(id),
+    ),
+  }
+}
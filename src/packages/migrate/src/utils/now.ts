@@ -1,9 +1,8 @@
-export function now(): string {
-  const now = new Date()
-  return `${now.getFullYear()}${prefixZero(now.getMonth() + 1)}${prefixZero(
-    now.getDate(),
-  )}${prefixZero(now.getHours())}${prefixZero(now.getMinutes())}${prefixZero(
-    now.getSeconds(),
+export function now(date = new Date()): string {
+  return `${date.getFullYear()}${prefixZero(date.getMonth() + 1)}${prefixZero(
+    date.getDate(),
+  )}${prefixZero(date.getHours())}${prefixZero(date.getMinutes())}${prefixZero(
+    date.getSeconds(),
   )}`
 }
 
@@ -44,6 +44,22 @@ export function highlightMigrationsSQL(
   )
 }
 
+/**
+ * Renders the database steps as a plain SQL script, which can be run
+ * with the database's own tooling
+ */
+export function printSqlScript(
+  migrationId: string,
+  databaseSteps: DatabaseStep[],
+): string {
+  const statements = databaseSteps
+    .map((step) => step.raw.trim())
+    .filter((raw) => raw.length > 0)
+    .map((raw) => (raw.endsWith(';') ? raw : `${raw};`))
+
+  return `-- Migration ${migrationId}\n\n${statements.join('\n\n')}\n`
+}
+
 export function printDetailedDatabaseSteps(
   databaseSteps: DatabaseStep[],
 ): string {
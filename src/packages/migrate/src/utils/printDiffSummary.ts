@@ -0,0 +1,48 @@
+import chalk from 'chalk'
+import { DatamodelDiff } from './diffDatamodels'
+
+export function printDiffSummary(diff: DatamodelDiff): string {
+  const lines: string[] = []
+
+  for (const model of diff.addedModels) {
+    lines.push(`  ${chalk.greenBright('+')} model ${chalk.bold(model)}`)
+  }
+  for (const model of diff.removedModels) {
+    lines.push(`  ${chalk.redBright('-')} model ${chalk.bold(model)}`)
+  }
+  for (const model of diff.changedModels) {
+    lines.push(`  ${chalk.yellow('~')} model ${chalk.bold(model.model)}`)
+    for (const field of model.addedFields) {
+      lines.push(`      ${chalk.greenBright('+')} ${field}`)
+    }
+    for (const field of model.removedFields) {
+      lines.push(`      ${chalk.redBright('-')} ${field}`)
+    }
+    for (const { field, from, to } of model.changedFields) {
+      lines.push(`      ${chalk.yellow('~')} ${field}: ${from} → ${to}`)
+    }
+    for (const attribute of model.addedAttributes) {
+      lines.push(`      ${chalk.greenBright('+')} ${attribute}`)
+    }
+    for (const attribute of model.removedAttributes) {
+      lines.push(`      ${chalk.redBright('-')} ${attribute}`)
+    }
+  }
+  for (const enumName of diff.addedEnums) {
+    lines.push(`  ${chalk.greenBright('+')} enum ${chalk.bold(enumName)}`)
+  }
+  for (const enumName of diff.removedEnums) {
+    lines.push(`  ${chalk.redBright('-')} enum ${chalk.bold(enumName)}`)
+  }
+  for (const changedEnum of diff.changedEnums) {
+    lines.push(`  ${chalk.yellow('~')} enum ${chalk.bold(changedEnum.enum)}`)
+    for (const value of changedEnum.addedValues) {
+      lines.push(`      ${chalk.greenBright('+')} ${value}`)
+    }
+    for (const value of changedEnum.removedValues) {
+      lines.push(`      ${chalk.redBright('-')} ${value}`)
+    }
+  }
+
+  return `${chalk.bold('Summary:')}\n${lines.join('\n')}`
+}
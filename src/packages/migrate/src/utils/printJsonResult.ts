@@ -0,0 +1,69 @@
+import stripAnsi from 'strip-ansi'
+import { DatabaseStep, EngineResults } from '../types'
+import { getExitCode, MigrateExitCode } from './errors'
+
+export interface MigrationJsonResult {
+  id: string
+  /**
+   * The raw SQL of the database steps
+   */
+  databaseSteps: string[]
+  warnings: EngineResults.Warning[]
+  durationMs?: number
+}
+
+export interface MigrateJsonResult {
+  command: 'up' | 'down' | 'save'
+  success: boolean
+  /**
+   * Whether the migrations were only previewed and not applied
+   */
+  preview?: boolean
+  migrations: MigrationJsonResult[]
+  warnings: EngineResults.Warning[]
+  durationMs: number
+  error?: {
+    exitCode: MigrateExitCode
+    message: string
+  }
+}
+
+export function getMigrationJsonResult(migration: {
+  id: string
+  databaseSteps?: DatabaseStep[]
+  warnings?: EngineResults.Warning[]
+}): MigrationJsonResult {
+  return {
+    id: migration.id,
+    databaseSteps: (migration.databaseSteps || []).map((step) => step.raw),
+    warnings: migration.warnings || [],
+  }
+}
+
+export function printJsonResult(result: MigrateJsonResult): string {
+  return JSON.stringify(result, null, 2)
+}
+
+/**
+ * Prints the JSON document of a failed command and sets the exit code of its failure class
+ */
+export function printJsonError(
+  command: MigrateJsonResult['command'],
+  error: Error,
+  startedAt: number,
+): string {
+  const exitCode = getExitCode(error)
+  process.exitCode = exitCode
+
+  return printJsonResult({
+    command,
+    success: false,
+    migrations: [],
+    warnings: [],
+    durationMs: Date.now() - startedAt,
+    error: {
+      exitCode,
+      message: stripAnsi(error.message),
+    },
+  })
+}
@@ -10,6 +10,10 @@ export interface MigrationReadmeInput {
   datamodelA: string
   datamodelB: string
   databaseSteps: DatabaseStep[]
+  /**
+   * Ids of the migrations, which were squashed into this one
+   */
+  squashedMigrations?: string[]
 }
 
 export function printMigrationReadme({
@@ -18,6 +22,7 @@ export function printMigrationReadme({
   datamodelA,
   datamodelB,
   databaseSteps,
+  squashedMigrations,
 }: MigrationReadmeInput): string {
   const user = getUserName()
   const email = getEmail()
@@ -35,7 +40,7 @@ This migration has been generated${byStr} at ${new Date().toLocaleString(
     'en-US',
   )}.
 You can check out the [state of the schema](./schema.prisma) after the migration.
-
+${printSquashedMigrations(squashedMigrations)}
 ## Database Steps
 
 \`\`\`sql
@@ -78,6 +83,21 @@ main()
 `
 }
 
+function printSquashedMigrations(squashedMigrations?: string[]): string {
+  if (!squashedMigrations || squashedMigrations.length === 0) {
+    return ''
+  }
+
+  return `
+## Squashed Migrations
+
+This migration combines ${squashedMigrations.length} migrations.
+Databases, which have all of them applied, treat this migration as applied.
+
+${squashedMigrations.map((id) => `- \`${id}\``).join('\n')}
+`
+}
+
 function makePatch({
   datamodelA,
   datamodelB,
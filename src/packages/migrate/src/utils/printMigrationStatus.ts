@@ -0,0 +1,70 @@
+import chalk from 'chalk'
+import { MigrationStatusResult, needsAttention } from './getMigrationStatus'
+import { printMigrationId } from './printMigrationId'
+
+export function printMigrationStatus(status: MigrationStatusResult): string {
+  const sections: string[] = []
+
+  const printSection = (title: string, ids: string[]) => {
+    if (ids.length > 0) {
+      sections.push(
+        `${title}\n${ids
+          .map((id) => `  • ${printMigrationId(id)}`)
+          .join('\n')}`,
+      )
+    }
+  }
+
+  printSection(chalk.bold.green('Applied migrations:'), status.applied)
+  printSection(chalk.bold.yellow('Pending migrations:'), status.pending)
+
+  if (status.failed.length > 0) {
+    sections.push(
+      `${chalk.bold.red('Failed migrations:')}\n${status.failed
+        .map(
+          (m) =>
+            `  • ${printMigrationId(m.id)} ${chalk.red(`(${m.status})`)}${
+              m.errors.length > 0
+                ? `\n    ${chalk.dim(JSON.stringify(m.errors))}`
+                : ''
+            }`,
+        )
+        .join('\n')}`,
+    )
+  }
+
+  printSection(
+    chalk.bold.red('Migrations in the database, which are missing locally:'),
+    status.unknownRemote,
+  )
+  printSection(
+    chalk.bold.red(
+      `Local migrations, which are missing in ${chalk.bold('migrate.lock')}:`,
+    ),
+    status.notInLockFile,
+  )
+  printSection(
+    chalk.bold.red(
+      `Migrations in ${chalk.bold('migrate.lock')}, which are missing locally:`,
+    ),
+    status.missingLocally,
+  )
+
+  if (status.diverged) {
+    sections.push(
+      chalk.bold.red(
+        'The database applied the migrations in a different order than they exist locally.',
+      ),
+    )
+  }
+
+  if (sections.length === 0) {
+    return 'No migrations found'
+  }
+
+  if (!needsAttention(status)) {
+    sections.push('The database is up to date')
+  }
+
+  return sections.join('\n\n')
+}
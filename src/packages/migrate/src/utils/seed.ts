@@ -0,0 +1,103 @@
+import { getSchemaDir } from '@prisma/sdk'
+import chalk from 'chalk'
+import execa from 'execa'
+import fs from 'fs'
+import path from 'path'
+import { promisify } from 'util'
+import plusX from './plusX'
+
+const exists = promisify(fs.exists)
+const readFile = promisify(fs.readFile)
+
+/**
+ * Seed scripts, which are picked up when they're placed beside the schema.prisma file
+ */
+export const seedFileNames = ['seed.ts', 'seed.js', 'seed.sh']
+
+/**
+ * Finds the seed script configured as `prisma.seed` in the package.json
+ * or placed beside the schema.prisma file
+ */
+export async function findSeedScript(
+  schemaPath?: string,
+  cwd = process.cwd(),
+): Promise<string | undefined> {
+  const packageJsonPath = path.join(cwd, 'package.json')
+  if (await exists(packageJsonPath)) {
+    const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8'))
+    const seed = packageJson.prisma?.seed
+    if (seed) {
+      const seedPath = path.resolve(cwd, seed)
+      if (!(await exists(seedPath))) {
+        throw new Error(
+          `The seed script ${chalk.bold(seed)} configured in ${chalk.bold(
+            'package.json',
+          )} doesn't exist.`,
+        )
+      }
+      return seedPath
+    }
+  }
+
+  const schemaDir = await getSchemaDir(schemaPath)
+  if (!schemaDir) {
+    return undefined
+  }
+
+  for (const fileName of seedFileNames) {
+    const seedPath = path.join(schemaDir, fileName)
+    if (await exists(seedPath)) {
+      return seedPath
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Runs a seed script. TypeScript seeds are run with ts-node,
+ * JavaScript seeds with node and everything else as an executable.
+ */
+export async function runSeed(seedPath: string): Promise<void> {
+  if (!(await exists(seedPath))) {
+    throw new Error(`Could not find the seed script ${seedPath}`)
+  }
+
+  // the seed inherits the environment, so the generated client connects
+  // to the same database as the CLI
+  const options: execa.Options = {
+    cwd: path.dirname(seedPath),
+    stdio: 'inherit',
+    preferLocal: true,
+    env: {
+      FORCE_COLOR: '1',
+    },
+  }
+
+  switch (path.extname(seedPath)) {
+    case '.ts':
+      try {
+        await execa('ts-node', [seedPath], options)
+      } catch (e) {
+        if (e.code === 'ENOENT') {
+          throw new Error(
+            `To run the TypeScript seed ${chalk.bold(
+              path.basename(seedPath),
+            )}, please install ${chalk.bold('ts-node')}:\n${chalk.greenBright(
+              'npm install --save-dev ts-node typescript',
+            )}`,
+          )
+        }
+        throw e
+      }
+      break
+    case '.js':
+      await execa('node', [seedPath], options)
+      break
+    default:
+      if (process.platform !== 'win32') {
+        plusX(seedPath)
+      }
+      await execa(seedPath, [], options)
+  }
+}